@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { Suspense, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Plus, FolderOpen } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
@@ -8,6 +8,7 @@ import { useProjects } from "@/hooks/use-projects";
 import { Button } from "@/components/ui/button";
 import { ProjectCard } from "@/components/projects/project-card";
 import { CreateProjectDialog } from "@/components/projects/create-project-dialog";
+import { ReportDialog } from "@/components/projects/report-dialog";
 
 export default function ProjectsPage() {
   const { user } = useAuth();
@@ -106,6 +107,11 @@ export default function ProjectsPage() {
         open={createDialogOpen}
         onOpenChange={setCreateDialogOpen}
       />
+
+      {/* Report linked from a delivery (?projectId=...&report=...) */}
+      <Suspense fallback={null}>
+        <ReportDialog />
+      </Suspense>
     </div>
   );
 }
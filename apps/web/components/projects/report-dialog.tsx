@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FileText } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { getDeliveryLog, type DeliveryLog } from "@/lib/reports";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * Shows the report linked from a delivery (/projects?projectId=...&report=...),
+ * e.g. the "full report" link of truncated Slack messages and SMS digests
+ */
+export function ReportDialog() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const projectId = searchParams.get("projectId");
+  const reportId = searchParams.get("report");
+
+  const [report, setReport] = useState<DeliveryLog | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid || !projectId || !reportId) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getDeliveryLog(user.uid, projectId, reportId)
+      .then((log) => {
+        if (cancelled) return;
+        if (log) {
+          setReport(log);
+        } else {
+          setError("This report could not be found.");
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load report:", err);
+        setError("Failed to load the report. Please try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.uid, projectId, reportId]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      router.replace("/projects");
+    }
+  };
+
+  const deliveredAt = report?.deliveredAt || report?.preparedAt;
+
+  return (
+    <Dialog open={!!projectId && !!reportId} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <FileText className="w-5 h-5 text-primary" />
+            </div>
+            <DialogTitle>
+              {report?.reportTitle || "Research Report"}
+            </DialogTitle>
+          </div>
+          {deliveredAt && (
+            <DialogDescription>
+              {new Date(deliveredAt).toLocaleString()}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading && <div className="h-64 rounded-md bg-muted animate-pulse" />}
+
+        {error && (
+          <div className="text-sm text-destructive bg-destructive/10 px-3 py-2 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!loading && report && (
+          <div className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+            {report.reportMarkdown}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Delivered reports for web app
+ */
+
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "./firebase";
+import type { DeliveryLog } from "core";
+
+// Import types from core package
+export type { DeliveryLog } from "core";
+
+/**
+ * Get a delivered report (delivery log) of a project
+ * Returns null if it doesn't exist
+ */
+export async function getDeliveryLog(
+  userId: string,
+  projectId: string,
+  deliveryLogId: string
+): Promise<DeliveryLog | null> {
+  const logRef = doc(
+    db,
+    "users",
+    userId,
+    "projects",
+    projectId,
+    "deliveryLogs",
+    deliveryLogId
+  );
+  const logDoc = await getDoc(logRef);
+
+  if (!logDoc.exists()) {
+    return null;
+  }
+  return { id: logDoc.id, ...logDoc.data() } as DeliveryLog;
+}
@@ -15,6 +15,9 @@ export type {
   SearchParameters,
   ProjectSettings,
   DeliveryConfig,
+  LLMTask,
+  LLMModelSelection,
+  ProjectLLMOverrides,
 } from "./models/project";
 
 export type {
@@ -29,6 +32,9 @@ export type {
   NewDeliveryLog,
   DeliveryLogSummary,
   DeliveryStats,
+  DeliveryDestination,
+  LLMStepUsage,
+  ContentCacheStats,
 } from "./models/delivery-log";
 
 export type {
@@ -39,6 +45,8 @@ export type {
   NotificationStatus,
 } from "./models/admin-notification";
 
+export type { MonthlySpending, BudgetScope } from "./models/spending";
+
 export type {
   SearchHistory,
   NewSearchHistory,
@@ -64,50 +72,163 @@ export {
   extractContentWithRetry,
   extractMultipleContents,
   getContentPreview,
+  configureContentFetching,
+  parseDomainFetchRules,
+  ScrapingBeeFetcher,
+  createScrapingBeeFetcher,
 } from "./services/content-extractor";
 export type {
   ExtractedContent,
   ExtractionOptions,
+  ContentFetcher,
+  ContentFetchingConfig,
+  FetchedPage,
+  FetchRequest,
+  FetchMode,
+  DomainFetchRule,
+  ScrapingBeeFetcherOptions,
 } from "./services/content-extractor";
 
+export {
+  parseRobotsTxt,
+  isAllowedByRobots,
+  getRobotsRules,
+  clearRobotsCache,
+} from "./services/robots";
+export type { RobotsRules } from "./services/robots";
+
+export {
+  FirestoreContentCache,
+  createFirestoreContentCache,
+  getContentCacheKey,
+  getContentCacheStats,
+} from "./services/content-cache";
+export type { ContentCache, CachedContent } from "./services/content-cache";
+
+export {
+  detectDocumentType,
+  parseDocument,
+  MAX_DOCUMENT_BYTES,
+} from "./services/document-extractor";
+export type {
+  DocumentType,
+  ParsedDocument,
+} from "./services/document-extractor";
+
+export { sendAdminEmail, sendBudgetExceededEmail } from "./services/email";
+
+export {
+  setSmsSender,
+  TwilioSmsSender,
+  InMemorySmsSender,
+} from "./services/sms";
+export type {
+  SmsSender,
+  SmsSendResult,
+  TwilioSenderConfig,
+} from "./services/sms";
+
 export {
   executeResearchForProject,
   executeResearchBatch,
   setDefaultProviders,
+  SEARCH_REQUEST_PRICING,
+  getBudgetStatus,
+  getRemainingBudgetUsd,
+  getSpendingMonth,
 } from "./services/research-engine";
 export type {
   ResearchResult,
   ResearchOptions,
+  RunUsage,
+  BudgetStatus,
+  BudgetExceeded,
 } from "./services/research-engine";
 
+export {
+  deliverReport,
+  deliverPreparedReport,
+  getDeliveryRetryDelayMs,
+  registerDeliveryChannel,
+  getDeliveryChannel,
+  getRegisteredDestinations,
+} from "./services/delivery";
+export type { PreparedDeliveryOutcome } from "./services/delivery";
+
 // Provider Interfaces
 export type {
   LLMProvider,
+  LLMUsage,
+  LLMUsageCallback,
   SearchProvider,
   GeneratedQuery,
   SearchFilters,
   SearchResultItem,
   SearchResponse,
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
 } from "./interfaces";
 
 // Provider Implementations
-export { OpenAIProvider, createOpenAIProvider } from "./services/llm";
+export {
+  OpenAIProvider,
+  createOpenAIProvider,
+  GeminiProvider,
+  AnthropicProvider,
+  HybridProvider,
+  LocalProvider,
+  createLocalProvider,
+  createAnthropicProvider,
+  MockLLMProvider,
+  MODEL_PRICING,
+  estimateLLMCost,
+} from "./services/llm";
+export type {
+  AnthropicProviderOptions,
+  HybridProviderConfig,
+  LocalProviderOptions,
+  MockLLMFixture,
+} from "./services/llm";
 export {
   BraveSearchProvider,
   createBraveSearchProvider,
+  GoogleSearchProvider,
+  createGoogleSearchProvider,
+  BingSearchProvider,
+  createBingSearchProvider,
+  MockSearchProvider,
+} from "./services/search";
+export type {
+  GoogleSearchProviderOptions,
+  BingSearchProviderOptions,
+  MockSearchFixture,
 } from "./services/search";
+export {
+  EmailDeliveryChannel,
+  SlackDeliveryChannel,
+  SmsDeliveryChannel,
+} from "./services/delivery";
 
 // Provider Factories
 export {
   createLLMProvider,
   createSearchProvider,
+  createDeliveryChannel,
   createProviders,
+  createHybridProvider,
+  parseHybridLLMConfig,
+  applyLLMOverrides,
 } from "./providers";
 export type {
   LLMProviderType,
   SearchProviderType,
+  DeliveryChannelType,
   LLMProviderConfig,
+  LLMTaskConfig,
+  HybridLLMConfig,
   SearchProviderConfig,
+  DeliveryChannelConfig,
 } from "./providers";
 
 // Utils
@@ -126,9 +247,12 @@ export {
   isProjectDue,
 } from "./utils/scheduling";
 
+export { buildReportUrl } from "./utils/report-url";
+
 export {
   saveDeliveryLog,
   saveSearchResults,
+  updateDeliveryLogStatus,
 } from "./services/research-engine/result-storage";
 
 // Hooks
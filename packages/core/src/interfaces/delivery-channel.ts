@@ -0,0 +1,60 @@
+/**
+ * Delivery Channel Interface
+ *
+ * Abstract interface for report delivery channels.
+ * Allows switching between Email, Slack, SMS, etc.
+ */
+
+import type { Project } from "../models/project";
+import type { CompiledReport } from "./llm-provider";
+
+/**
+ * Report delivery request
+ */
+export interface DeliveryRequest {
+  userId: string;
+  projectId: string;
+  deliveryLogId: string;
+  project: Project;
+  report: CompiledReport;
+  address: string; // Resolved email/webhook/phone number
+  reportUrl?: string; // Link to the full report (if the web app URL is configured)
+  resumeFromPart?: number; // Parts already delivered by an earlier attempt (multi-part channels)
+}
+
+/**
+ * Report delivery result
+ */
+export interface DeliveryResult {
+  success: boolean;
+  messageId?: string; // Provider message ID (if available)
+  error?: string; // Error message if delivery failed
+  partsDelivered?: number; // Parts delivered so far, also on failure (multi-part channels)
+}
+
+/**
+ * Delivery Channel interface
+ * All delivery channels must implement these methods
+ */
+export interface DeliveryChannel {
+  /**
+   * Maximum scheduled re-attempts after a failed delivery (default: 3)
+   */
+  readonly maxRetries?: number;
+
+  /**
+   * Resolve the destination address for a project
+   * Returns undefined if the project has no usable address for this channel
+   */
+  resolveAddress(project: Project, fallbackEmail?: string): string | undefined;
+
+  /**
+   * Deliver a compiled report
+   */
+  deliver(request: DeliveryRequest): Promise<DeliveryResult>;
+
+  /**
+   * Get the channel name
+   */
+  getName(): string;
+}
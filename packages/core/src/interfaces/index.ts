@@ -9,6 +9,8 @@ export type {
   RelevancyResult,
   ResultForReport,
   CompiledReport,
+  LLMUsage,
+  LLMUsageCallback,
 } from "./llm-provider";
 
 export type {
@@ -17,3 +19,9 @@ export type {
   SearchResultItem,
   SearchResponse,
 } from "./search-provider";
+
+export type {
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
+} from "./delivery-channel";
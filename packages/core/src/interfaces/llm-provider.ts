@@ -80,6 +80,26 @@ export interface CompiledReport {
   averageScore: number;
 }
 
+/**
+ * Token usage of a single LLM API call
+ */
+export interface LLMUsage {
+  provider: string; // e.g. "openai", "gemini", "anthropic", "local"
+  model: string; // Model that served the call
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Receives the usage of each API call made by a provider method
+ * (including failed attempts that still consumed tokens)
+ *
+ * Usage is reported through this callback rather than in the methods' return
+ * values: one method call can make several API calls (batches, retries,
+ * hybrid providers), and failed attempts cost tokens but return nothing.
+ */
+export type LLMUsageCallback = (usage: LLMUsage) => void;
+
 /**
  * LLM Provider interface
  * All LLM providers must implement these methods
@@ -94,6 +114,7 @@ export interface LLMProvider {
     options?: {
       count?: number;
       focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<GeneratedQuery[]>;
 
@@ -102,7 +123,10 @@ export interface LLMProvider {
    */
   filterSearchResults?(
     results: SearchResultToFilter[],
-    projectDescription: string
+    projectDescription: string,
+    options?: {
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<FilteredSearchResult[]>;
 
   /**
@@ -114,6 +138,7 @@ export interface LLMProvider {
     options?: {
       threshold?: number;
       batchSize?: number;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<RelevancyResult[]>;
 
@@ -126,6 +151,7 @@ export interface LLMProvider {
     options?: {
       tone?: "professional" | "casual" | "technical";
       maxLength?: number;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<CompiledReport>;
 }
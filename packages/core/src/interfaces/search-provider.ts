@@ -52,7 +52,7 @@ export interface SearchResponse {
   query: string; // The query that was executed
   results: SearchResultItem[];
   totalResults: number;
-  metadata?: Record<string, any>; // Provider-specific metadata
+  metadata?: Record<string, any>; // Provider-specific metadata (requests: API requests made, if paginated)
 }
 
 /**
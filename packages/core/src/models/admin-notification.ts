@@ -1,18 +1,21 @@
 /**
  * AdminNotification data model
  *
- * Tracks system errors and failures that require admin attention.
+ * Tracks system errors, failures and projects paused for budget that
+ * require admin attention.
  * Stored in Firestore at root level: adminNotifications/{notificationId}
  */
 
 export type NotificationType =
   | "research_failure"
   | "delivery_failure"
+  | "budget_exceeded"
   | "system_error";
 
 export type NotificationSeverity = "low" | "medium" | "high" | "critical";
 
-export type NotificationStatus = "pending" | "sent" | "failed";
+// suppressed: the same problem was alerted recently (see duplicateOf)
+export type NotificationStatus = "pending" | "sent" | "failed" | "suppressed";
 
 /**
  * Full admin notification type
@@ -34,10 +37,15 @@ export interface AdminNotification {
 
   // Timestamps
   occurredAt: number;
-  notifiedAt?: number;
+  notifiedAt?: number; // When it was sent
+  suppressedAt?: number; // When it was suppressed as a repeat (suppressed status)
 
   // Notification status
   status: NotificationStatus;
+  dispatchError?: string; // Why the last send attempt failed
+  dispatchAttempts?: number; // Failed send attempts so far
+  nextAttemptAt?: number; // When the next send attempt is due while pending (0 = now)
+  duplicateOf?: string; // Notification this one was grouped with when sent, or the recent alert it repeats (suppressed status)
 }
 
 /**
@@ -5,6 +5,35 @@
  * Stored in Firestore under users/{userId}/projects/{projectId}/deliveryLogs/{logId}
  */
 
+import type { LLMTask } from "./project";
+
+/**
+ * Channels a report can be delivered through
+ */
+export type DeliveryDestination = "email" | "slack" | "sms";
+
+/**
+ * LLM usage of a research step (query generation, filtering, analysis, report)
+ */
+export interface LLMStepUsage {
+  calls: number; // Number of LLM requests
+  promptTokens: number;
+  completionTokens: number;
+  models: string[]; // Models used for this step
+  estimatedCostUsd: number;
+}
+
+/**
+ * Content cache usage of a research run
+ */
+export interface ContentCacheStats {
+  hits: number; // Served from the cache without a request
+  revalidated: number; // Confirmed unchanged by the server (304)
+  misses: number; // Fetched in full
+  bytesSaved: number; // Response bytes not downloaded (hits and revalidations)
+  fetchTimeSavedMs: number; // Fetch and parse time saved by hits
+}
+
 /**
  * Delivery statistics for the report
  */
@@ -16,6 +45,13 @@ export interface DeliveryStats {
   iterationsRequired: number; // Number of retry iterations (1-3)
   urlsFetched: number; // Total URLs fetched
   urlsSuccessful: number; // URLs successfully scraped
+  disallowedUrls?: string[]; // URLs skipped because robots.txt disallows them (listed in the report)
+  contentCache?: ContentCacheStats; // Content cache hits and savings (absent without a cache)
+
+  // Usage and cost (absent on logs created before usage tracking)
+  llmUsage?: Partial<Record<LLMTask, LLMStepUsage>>; // Token usage per research step
+  searchRequests?: Record<string, number>; // Search API requests per provider (e.g. { "brave search": 10 })
+  estimatedCostUsd?: number; // Estimated LLM + search API cost of the run
 }
 
 /**
@@ -27,27 +63,30 @@ export interface DeliveryLog {
   userId: string; // Owner user ID
 
   // Delivery information
-  destination: "email" | "slack" | "sms"; // Where it was delivered
+  destination: DeliveryDestination; // Where it was delivered
   destinationAddress: string; // Email/phone/webhook that received it
 
   // Report content
   reportMarkdown: string; // The compiled markdown report
   reportTitle: string; // Title of the report
+  reportSummary?: string; // Executive summary (used for short-form channels like SMS)
 
   // Statistics
   stats: DeliveryStats;
 
   // Status
-  status: "pending" | "success" | "failed" | "partial"; // Delivery status
+  status: "pending" | "retrying" | "success" | "failed" | "partial"; // Delivery status ("failed" is terminal)
   error?: string; // Error message if delivery failed
   retryCount: number; // Number of delivery retry attempts
+  nextRetryAt?: number; // When the next delivery retry is due (retrying status only)
+  deliveredParts?: number; // Parts already delivered by a failed attempt (multi-part channels), skipped on retry
   preparedAt?: number; // When research completed (for pending status)
 
   // References
   searchResultIds: string[]; // IDs of SearchResults included in this report
 
   // Timestamps
-  deliveredAt?: number; // When delivery was attempted/completed (undefined for pending status)
+  deliveredAt?: number; // When delivery succeeded (undefined until then)
   researchStartedAt: number; // When the research process started
   researchCompletedAt: number; // When the research process completed
 }
@@ -63,7 +102,7 @@ export interface NewDeliveryLog extends Omit<DeliveryLog, "id"> {}
 export interface DeliveryLogSummary {
   id: string;
   projectId: string;
-  destination: "email" | "slack" | "sms";
+  destination: DeliveryDestination;
   status: "success" | "failed" | "partial";
   deliveredAt: number;
   includedResults: number;
@@ -8,7 +8,14 @@ export type Frequency = "daily" | "weekly" | "monthly";
 
 export type ResultsDestination = "email" | "slack" | "sms" | "none";
 
-export type ProjectStatus = "active" | "paused" | "error" | "draft" | "running";
+// "budget_exceeded": paused until the spending budget allows runs again
+export type ProjectStatus =
+  | "active"
+  | "paused"
+  | "error"
+  | "draft"
+  | "running"
+  | "budget_exceeded";
 
 export type DateRangePreference =
   | "last_24h"
@@ -58,6 +65,25 @@ export interface DeliveryConfig {
   };
 }
 
+/**
+ * Research tasks that can use different LLM providers/models
+ */
+export type LLMTask = "query" | "filter" | "analysis" | "report";
+
+/**
+ * LLM provider/model selection for a single task
+ */
+export interface LLMModelSelection {
+  provider: string; // LLM provider type (e.g. "openai", "gemini", "anthropic")
+  model?: string; // Model name (default: the configured model for that provider, else its default)
+}
+
+/**
+ * Per-project LLM overrides (e.g. a stronger report model for premium projects)
+ * Applied on top of the scheduler's provider configuration
+ */
+export type ProjectLLMOverrides = Partial<Record<LLMTask, LLMModelSelection>>;
+
 /**
  * Full project type as stored in Firestore
  */
@@ -82,6 +108,13 @@ export interface Project {
   // Delivery configuration
   deliveryConfig?: DeliveryConfig;
 
+  // LLM configuration
+  llmOverrides?: ProjectLLMOverrides;
+
+  // Spending
+  monthlyBudgetUsd?: number; // Optional monthly spending cap for this project (on top of the user's budget)
+  budgetExceededAt?: number; // When the project was paused for budget ("budget_exceeded" status)
+
   // Execution tracking
   status: ProjectStatus;
   lastRunAt?: number; // Timestamp of last research execution
@@ -90,6 +123,10 @@ export interface Project {
   preparedDeliveryLogId?: string; // ID of pre-run delivery log ready to send
   researchStartedAt?: number; // Timestamp when current research started (for "running" status)
 
+  // Scheduler lease (prevents multiple scheduler instances running the same project)
+  leaseOwner?: string; // Scheduler instance currently working on the project
+  leaseExpiresAt?: number; // When the lease can be reclaimed by another instance
+
   // Timestamps
   createdAt: number;
   updatedAt: number;
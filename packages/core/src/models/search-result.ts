@@ -17,6 +17,13 @@ export interface SearchResultMetadata {
   imageAlt?: string; // Image alt text
   contentType?: string; // "article", "video", "pdf", etc.
   wordCount?: number; // Approximate word count
+  modifiedDate?: string; // ISO date string
+  section?: string; // Publication section (e.g. "Technology")
+  canonicalUrl?: string; // Canonical URL declared by the page
+  siteName?: string; // Publication name
+  language?: string; // BCP 47 tag (e.g. "en", "en-US")
+  brand?: string; // Product brand
+  price?: string; // Product price ("19.99 USD")
   [key: string]: any; // Extensible for additional metadata
 }
 
@@ -52,7 +59,7 @@ export interface SearchResult {
   reportId?: string; // ID of the delivery log if included
   
   // Status
-  fetchStatus: "success" | "failed" | "timeout" | "blocked";
+  fetchStatus: "success" | "failed" | "timeout" | "blocked" | "disallowed";
   fetchError?: string; // Error message if fetch failed
 }
 
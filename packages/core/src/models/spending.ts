@@ -0,0 +1,23 @@
+/**
+ * Spending data model
+ *
+ * Month-to-date estimated cost of research runs (LLM tokens and search API
+ * requests), used to enforce user and project budgets.
+ * Stored in Firestore under users/{userId}/spending/{month} (month: "YYYY-MM", UTC)
+ */
+
+/**
+ * Spending of a user in one calendar month
+ */
+export interface MonthlySpending {
+  month: string; // "YYYY-MM" (UTC)
+  totalCostUsd: number; // Estimated cost of all runs this month
+  projectCostUsd: Record<string, number>; // Estimated cost per project ID
+  runCount: number; // Number of research runs recorded
+  updatedAt: number;
+}
+
+/**
+ * Which budget a run ran out of
+ */
+export type BudgetScope = "user" | "project";
@@ -7,13 +7,29 @@
 
 import type { LLMProvider } from "./interfaces/llm-provider";
 import type { SearchProvider } from "./interfaces/search-provider";
+import type { DeliveryChannel } from "./interfaces/delivery-channel";
+import type { LLMTask, ProjectLLMOverrides } from "./models/project";
 import { OpenAIProvider } from "./services/llm/openai-provider";
+import { AnthropicProvider } from "./services/llm/anthropic-provider";
+import { GeminiProvider } from "./services/llm/gemini-provider";
+import { HybridProvider } from "./services/llm/hybrid-provider";
+import { LocalProvider } from "./services/llm/local-provider";
 import { BraveSearchProvider } from "./services/search/brave-provider";
+import { GoogleSearchProvider } from "./services/search/google-provider";
+import { BingSearchProvider } from "./services/search/bing-provider";
+import { EmailDeliveryChannel } from "./services/delivery/email-channel";
+import { SlackDeliveryChannel } from "./services/delivery/slack-channel";
+import { SmsDeliveryChannel } from "./services/delivery/sms-channel";
 
 /**
  * LLM Provider types
  */
-export type LLMProviderType = "openai" | "gemini" | "anthropic" | "custom";
+export type LLMProviderType =
+  | "openai"
+  | "gemini"
+  | "anthropic"
+  | "local"
+  | "custom";
 
 /**
  * Search Provider types
@@ -25,43 +41,86 @@ export type SearchProviderType =
   | "scrapingbee"
   | "custom";
 
+/**
+ * Delivery Channel types
+ */
+export type DeliveryChannelType = "email" | "slack" | "sms" | "custom";
+
 /**
  * LLM Provider configuration
  */
 export interface LLMProviderConfig {
   provider: LLMProviderType;
-  apiKey: string;
+  apiKey: string; // May be empty for local servers that don't need one
+  model?: string; // Model name (default: the provider's; for openai, the per-prompt models in prompts.ts)
+  baseUrl?: string; // OpenAI-compatible endpoint for local
   customProvider?: LLMProvider; // For custom implementations
 }
 
+/**
+ * Provider/model for a single task in a hybrid LLM setup
+ */
+export interface LLMTaskConfig {
+  provider: LLMProviderType;
+  model?: string;
+  apiKey?: string; // Default: the provider's key from the apiKeys map
+  baseUrl?: string; // OpenAI-compatible endpoint for local
+}
+
+/**
+ * Declarative HybridProvider configuration
+ * Tasks without their own entry use `default`
+ *
+ * Example:
+ *   { "default": { "provider": "openai" },
+ *     "report": { "provider": "anthropic", "model": "claude-3-5-sonnet-latest" } }
+ */
+export interface HybridLLMConfig {
+  default: LLMTaskConfig;
+  query?: LLMTaskConfig;
+  filter?: LLMTaskConfig;
+  analysis?: LLMTaskConfig;
+  report?: LLMTaskConfig;
+}
+
 /**
  * Search Provider configuration
  */
 export interface SearchProviderConfig {
   provider: SearchProviderType;
   apiKey: string;
+  engineId?: string; // Programmable Search engine ID (cx) for google (default: GOOGLE_SEARCH_ENGINE_ID)
   customProvider?: SearchProvider; // For custom implementations
 }
 
+/**
+ * Delivery Channel configuration
+ */
+export interface DeliveryChannelConfig {
+  channel: DeliveryChannelType;
+  customChannel?: DeliveryChannel; // For custom implementations
+}
+
 /**
  * Create an LLM provider from configuration
  */
 export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
   switch (config.provider) {
     case "openai":
-      return new OpenAIProvider(config.apiKey);
+      return new OpenAIProvider(config.apiKey, config.model);
 
     case "gemini":
-      // TODO: Implement Gemini provider
-      throw new Error(
-        "Gemini provider not yet implemented. Use 'openai' or provide a custom provider."
-      );
+      return new GeminiProvider(config.apiKey, config.model);
 
     case "anthropic":
-      // TODO: Implement Anthropic provider
-      throw new Error(
-        "Anthropic provider not yet implemented. Use 'openai' or provide a custom provider."
-      );
+      return new AnthropicProvider(config.apiKey, config.model);
+
+    case "local":
+      return new LocalProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey || undefined,
+        model: config.model,
+      });
 
     case "custom":
       if (!config.customProvider) {
@@ -76,6 +135,120 @@ export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
   }
 }
 
+const LLM_TASKS: LLMTask[] = ["query", "filter", "analysis", "report"];
+
+/**
+ * Parse a HybridLLMConfig from JSON (e.g. an environment variable)
+ */
+export function parseHybridLLMConfig(json: string): HybridLLMConfig {
+  let config: any;
+  try {
+    config = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid hybrid LLM config JSON: ${error.message}`);
+  }
+
+  const isTaskConfig = (value: any) =>
+    value && typeof value === "object" && typeof value.provider === "string";
+
+  if (!isTaskConfig(config?.default)) {
+    throw new Error(
+      'Invalid hybrid LLM config: "default" must be an object with a provider'
+    );
+  }
+  for (const task of LLM_TASKS) {
+    if (config[task] !== undefined && !isTaskConfig(config[task])) {
+      throw new Error(
+        `Invalid hybrid LLM config: "${task}" must be an object with a provider`
+      );
+    }
+  }
+
+  return config as HybridLLMConfig;
+}
+
+/**
+ * Apply per-project overrides to a hybrid LLM config
+ * Overrides select provider/model only; the endpoint and API key come from
+ * the config's slot for that provider (the task's own, then default, then
+ * any other task's), and without a model the slot's model is kept
+ */
+export function applyLLMOverrides(
+  config: HybridLLMConfig,
+  overrides?: ProjectLLMOverrides
+): HybridLLMConfig {
+  if (!overrides) {
+    return config;
+  }
+
+  const result: HybridLLMConfig = { ...config };
+  for (const task of LLM_TASKS) {
+    const override = overrides[task];
+    if (override) {
+      const provider = override.provider as LLMProviderType;
+      const slot = [
+        config[task],
+        config.default,
+        ...LLM_TASKS.map((t) => config[t]),
+      ].find((s) => s?.provider === provider);
+
+      result[task] = {
+        ...slot,
+        provider,
+        model: override.model || slot?.model,
+      };
+    }
+  }
+  return result;
+}
+
+/**
+ * Create a HybridProvider from a declarative config
+ * Tasks that resolve to the same provider/model/key share one instance
+ */
+export function createHybridProvider(
+  config: HybridLLMConfig,
+  apiKeys: Partial<Record<LLMProviderType, string>> = {}
+): HybridProvider {
+  const instances = new Map<string, LLMProvider>();
+
+  const resolve = (task: LLMTask): LLMProvider => {
+    const taskConfig = config[task] || config.default;
+    const apiKey = taskConfig.apiKey || apiKeys[taskConfig.provider];
+    // Local servers usually run without a key
+    if (!apiKey && taskConfig.provider !== "local") {
+      throw new Error(
+        `Missing API key for ${task} provider "${taskConfig.provider}"`
+      );
+    }
+
+    const key = [
+      taskConfig.provider,
+      taskConfig.model,
+      taskConfig.baseUrl,
+      apiKey,
+    ].join(":");
+    let provider = instances.get(key);
+    if (!provider) {
+      provider = createLLMProvider({
+        provider: taskConfig.provider,
+        apiKey: apiKey || "",
+        model: taskConfig.model,
+        baseUrl: taskConfig.baseUrl,
+      });
+      instances.set(key, provider);
+    }
+    return provider;
+  };
+
+  return new HybridProvider({
+    queryProvider: resolve("query"),
+    filterProvider: resolve("filter"),
+    analysisProvider: resolve("analysis"),
+    reportProvider: resolve("report"),
+  });
+}
+
 /**
  * Create a search provider from configuration
  */
@@ -87,21 +260,15 @@ export function createSearchProvider(
       return new BraveSearchProvider(config.apiKey);
 
     case "google":
-      // TODO: Implement Google Search provider
-      throw new Error(
-        "Google Search provider not yet implemented. Use 'brave' or provide a custom provider."
-      );
+      return new GoogleSearchProvider(config.apiKey, config.engineId);
 
     case "bing":
-      // TODO: Implement Bing Search provider
-      throw new Error(
-        "Bing Search provider not yet implemented. Use 'brave' or provide a custom provider."
-      );
+      return new BingSearchProvider(config.apiKey);
 
     case "scrapingbee":
-      // TODO: Implement ScrapingBee provider
+      // ScrapingBee renders pages rather than searching
       throw new Error(
-        "ScrapingBee provider not yet implemented. Use 'brave' or provide a custom provider."
+        "ScrapingBee is not a search provider. Use it as the content extraction fallback instead (ScrapingBeeFetcher / SCRAPINGBEE_API_KEY)."
       );
 
     case "custom":
@@ -117,6 +284,35 @@ export function createSearchProvider(
   }
 }
 
+/**
+ * Create a delivery channel from configuration
+ */
+export function createDeliveryChannel(
+  config: DeliveryChannelConfig
+): DeliveryChannel {
+  switch (config.channel) {
+    case "email":
+      return new EmailDeliveryChannel();
+
+    case "slack":
+      return new SlackDeliveryChannel();
+
+    case "sms":
+      return new SmsDeliveryChannel();
+
+    case "custom":
+      if (!config.customChannel) {
+        throw new Error(
+          "Custom delivery channel specified but not provided in config.customChannel"
+        );
+      }
+      return config.customChannel;
+
+    default:
+      throw new Error(`Unknown delivery channel type: ${config.channel}`);
+  }
+}
+
 /**
  * Convenience function to create both providers at once
  */
@@ -0,0 +1,174 @@
+/**
+ * Content cache
+ *
+ * Keeps extracted page content across research runs and projects, keyed by
+ * normalized URL, so overlapping topics don't fetch and parse the same pages
+ * again:
+ * - Entries younger than the TTL are used as they are (no request)
+ * - Older entries with an ETag or Last-Modified are revalidated with a
+ *   conditional request; a 304 keeps the cached content for another TTL
+ * - Anything else is fetched in full and replaces the entry
+ *
+ * The Firestore cache stores one document per URL in the contentCache
+ * collection. Its deleteAt field is meant for a Firestore TTL policy so
+ * stale entries are cleaned up:
+ *   gcloud firestore fields ttls update deleteAt --collection-group=contentCache
+ */
+
+import { createHash } from "crypto";
+import { db } from "./firebase";
+import type { ExtractedContent } from "./content-extractor";
+import type { ContentCacheStats } from "../models/delivery-log";
+
+/**
+ * Cached extraction result
+ */
+export interface CachedContent {
+  content: ExtractedContent;
+  cachedAt: number; // When the content was fetched or last revalidated
+  expiresAt: number; // Used without revalidation until then
+}
+
+/**
+ * Storage for cached content
+ */
+export interface ContentCache {
+  name: string;
+  get(key: string): Promise<CachedContent | null>;
+  set(key: string, entry: CachedContent): Promise<void>;
+}
+
+// Query parameters that only track the visit
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_ga|_hsenc|_hsmi|ref_src)$/i;
+
+// Firestore documents are limited to 1 MiB; larger content is not cached
+const MAX_CACHED_CONTENT_BYTES = 900 * 1024;
+
+// Expired entries are kept this long for revalidation before deletion
+const STALE_ENTRY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a URL into a cache key
+ * Fragments and tracking parameters are dropped and the remaining query
+ * parameters sorted; unlike deduplication, the rest of the query is kept
+ * since it often selects the content.
+ */
+export function getContentCacheKey(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = "";
+
+    const params = [...urlObj.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    urlObj.search = new URLSearchParams(params).toString();
+
+    return urlObj.href;
+  } catch (error) {
+    return url.trim();
+  }
+}
+
+/**
+ * Content cache stored in Firestore
+ */
+export class FirestoreContentCache implements ContentCache {
+  readonly name = "firestore";
+  private collection: string;
+
+  constructor(collection: string = "contentCache") {
+    this.collection = collection;
+  }
+
+  /**
+   * Document ID for a key (URLs can't be used as IDs directly)
+   */
+  private getDocId(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+
+  async get(key: string): Promise<CachedContent | null> {
+    const doc = await db
+      .collection(this.collection)
+      .doc(this.getDocId(key))
+      .get();
+    if (!doc.exists) {
+      return null;
+    }
+
+    const data = doc.data();
+    // Guard against hash collisions
+    if (data.key !== key) {
+      return null;
+    }
+    return {
+      content: data.content,
+      cachedAt: data.cachedAt,
+      expiresAt: data.expiresAt,
+    };
+  }
+
+  async set(key: string, entry: CachedContent): Promise<void> {
+    if (
+      Buffer.byteLength(JSON.stringify(entry.content)) >
+      MAX_CACHED_CONTENT_BYTES
+    ) {
+      return;
+    }
+
+    await db
+      .collection(this.collection)
+      .doc(this.getDocId(key))
+      .set({
+        key,
+        content: entry.content,
+        cachedAt: entry.cachedAt,
+        expiresAt: entry.expiresAt,
+        deleteAt: new Date(entry.expiresAt + STALE_ENTRY_RETENTION_MS),
+      });
+  }
+}
+
+/**
+ * Factory function to create Firestore content cache
+ */
+export function createFirestoreContentCache(
+  collection?: string
+): FirestoreContentCache {
+  return new FirestoreContentCache(collection);
+}
+
+/**
+ * Sum up the content cache usage of extraction results
+ * Returns undefined when none of them went through a cache
+ */
+export function getContentCacheStats(
+  contents: ExtractedContent[]
+): ContentCacheStats | undefined {
+  const cached = contents.filter((c) => c.cacheStatus);
+  if (cached.length === 0) {
+    return undefined;
+  }
+
+  const stats: ContentCacheStats = {
+    hits: 0,
+    revalidated: 0,
+    misses: 0,
+    bytesSaved: 0,
+    fetchTimeSavedMs: 0,
+  };
+  for (const content of cached) {
+    if (content.cacheStatus === "hit") {
+      stats.hits++;
+      stats.bytesSaved += content.responseBytes || 0;
+      stats.fetchTimeSavedMs += content.fetchDurationMs || 0;
+    } else if (content.cacheStatus === "revalidated") {
+      stats.revalidated++;
+      stats.bytesSaved += content.responseBytes || 0;
+    } else {
+      stats.misses++;
+    }
+  }
+  return stats;
+}
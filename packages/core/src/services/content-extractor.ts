@@ -6,9 +6,42 @@
  * - Headings and structure
  * - Images with alt text
  * - Metadata (title, description, author, publish date)
+ *
+ * PDF and DOCX documents are parsed into text (see document-extractor.ts)
+ * and produce the same shape, with metadata.contentType set.
+ *
+ * Pages are fetched directly by default. With a rendering fetcher
+ * configured (e.g. ScrapingBee), pages that come back blocked, empty or
+ * timed out are fetched again through it; per-domain rules can skip either
+ * step.
+ *
+ * Fetching is polite: robots.txt is honored for our user agent (disallowed
+ * URLs get fetchStatus "disallowed"), and requests to the same host are
+ * limited in concurrency and spaced by the crawl-delay or a minimum interval.
+ *
+ * With a content cache configured (see content-cache.ts), fresh cached
+ * results are returned without a request and stale ones are revalidated
+ * with their ETag/Last-Modified.
  */
 
 import * as cheerio from "cheerio";
+import {
+  detectDocumentType,
+  parseDocument,
+  MAX_DOCUMENT_BYTES,
+} from "./document-extractor";
+import { extractMainContent } from "./readability";
+import {
+  extractStructuredData,
+  type StructuredMetadata,
+} from "./structured-data";
+import { getRobotsRules, isAllowedByRobots } from "./robots";
+import { acquireHostSlot, isHostIdle } from "./host-limiter";
+import {
+  getContentCacheKey,
+  type CachedContent,
+  type ContentCache,
+} from "./content-cache";
 
 /**
  * Options for content extraction
@@ -17,9 +50,80 @@ export interface ExtractionOptions {
   timeout?: number; // Request timeout in ms (default: 10000)
   minSnippetLength?: number; // Minimum snippet length (default: 200)
   maxSnippetLength?: number; // Maximum snippet length (default: 500)
-  userAgent?: string; // Custom user agent
+  userAgent?: string; // User agent for requests and robots.txt matching (default: RelevxBot)
+  signal?: AbortSignal; // Cancels in-flight requests (e.g. when research times out)
+  renderingFetcher?: ContentFetcher; // Fallback for blocked, empty or timed-out pages (default: none)
+  renderTimeout?: number; // Rendering fetcher timeout in ms (default: 30000)
+  domainRules?: DomainFetchRule[]; // Fetch mode per domain (default: "auto")
+  respectRobotsTxt?: boolean; // Skip URLs robots.txt disallows (default: true)
+  domainConcurrency?: number; // Requests in flight per host (default: 1)
+  domainIntervalMs?: number; // Minimum time between requests to a host; a longer crawl-delay wins (default: 1000)
+  contentCache?: ContentCache; // Reuses results across runs (default: none)
+  cacheTtlMs?: number; // How long cached results are used without revalidation (default: 12 hours)
+}
+
+/**
+ * Raw page returned by a content fetcher
+ */
+export interface FetchedPage {
+  status: number; // HTTP status of the target page
+  statusText: string;
+  contentType?: string; // Content-Type header of the target page
+  etag?: string; // ETag header of the target page
+  lastModified?: string; // Last-Modified header of the target page
+  body: Buffer;
+}
+
+/**
+ * Request settings passed to a content fetcher
+ */
+export interface FetchRequest {
+  userAgent: string;
+  signal: AbortSignal; // Aborted on timeout or when the caller cancels
+  etag?: string; // Sent as If-None-Match (the page may answer 304)
+  lastModified?: string; // Sent as If-Modified-Since (the page may answer 304)
+}
+
+/**
+ * Fetches the HTML of a page
+ */
+export interface ContentFetcher {
+  name: string; // Recorded on the extracted content (e.g. "direct", "scrapingbee")
+  fetch(url: string, request: FetchRequest): Promise<FetchedPage>;
+}
+
+/**
+ * How pages of a domain are fetched
+ * - auto: direct fetch, rendering fetcher if blocked, empty or timed out
+ * - direct: direct fetch only
+ * - render: rendering fetcher only (e.g. single-page apps)
+ */
+export type FetchMode = "auto" | "direct" | "render";
+
+/**
+ * Fetch mode for a domain (also applies to its subdomains)
+ */
+export interface DomainFetchRule {
+  domain: string;
+  mode: FetchMode;
 }
 
+/**
+ * Content fetching defaults shared by all extractions
+ */
+export type ContentFetchingConfig = Pick<
+  ExtractionOptions,
+  | "renderingFetcher"
+  | "renderTimeout"
+  | "domainRules"
+  | "userAgent"
+  | "respectRobotsTxt"
+  | "domainConcurrency"
+  | "domainIntervalMs"
+  | "contentCache"
+  | "cacheTtlMs"
+>;
+
 /**
  * Extracted content from a web page
  */
@@ -51,15 +155,30 @@ export interface ExtractedContent {
     keywords?: string[];
     ogImage?: string; // Open Graph image
     contentType?: string; // Detected content type
+    modifiedDate?: string;
+    section?: string; // Publication section (e.g. "Technology")
+    canonicalUrl?: string;
+    siteName?: string;
+    language?: string; // BCP 47 tag (e.g. "en", "en-US")
+    brand?: string; // Products
+    price?: string; // Products ("19.99 USD")
   };
 
   // Stats
   wordCount: number;
   
   // Status
-  fetchStatus: "success" | "failed" | "timeout" | "blocked";
+  fetchStatus: "success" | "failed" | "timeout" | "blocked" | "disallowed"; // disallowed = skipped per robots.txt
   fetchError?: string;
+  fetcher?: string; // Fetcher that produced this result ("direct", "scrapingbee")
   fetchedAt: number;
+  etag?: string; // Response validators, for revalidating cached results
+  lastModified?: string;
+  responseBytes?: number; // Size of the response body
+  fetchDurationMs?: number; // Time to fetch and extract the page
+
+  // Cache
+  cacheStatus?: "hit" | "revalidated" | "miss"; // Content cache outcome (absent without a cache)
 }
 
 /**
@@ -69,78 +188,276 @@ const DEFAULT_OPTIONS: ExtractionOptions = {
   timeout: 10000,
   minSnippetLength: 200,
   maxSnippetLength: 500,
-  userAgent:
-    "Mozilla/5.0 (compatible; ResearchBot/1.0; +https://example.com/bot)",
+  userAgent: "RelevxBot/1.0 (+https://relevx.ai)",
+  renderTimeout: 30000,
+  respectRobotsTxt: true,
+  domainConcurrency: 1,
+  domainIntervalMs: 1000,
+  cacheTtlMs: 12 * 60 * 60 * 1000,
 };
 
+// Longer crawl-delays are capped so one host can't stall a research run
+const MAX_CRAWL_DELAY_MS = 60000;
+
+// Direct fetches with less main content than this are treated as empty
+// (typically single-page apps that render client-side)
+const MIN_DIRECT_CONTENT_WORDS = 50;
+
+const SCRAPINGBEE_API_URL = "https://app.scrapingbee.com/api/v1/";
+
+// Content fetching defaults (see configureContentFetching)
+let defaultFetchingConfig: ContentFetchingConfig = {};
+
 /**
- * Normalize URL for deduplication
+ * Read a response body, failing as soon as it is known to exceed
+ * MAX_DOCUMENT_BYTES (from Content-Length, or while reading the stream)
  */
-function normalizeUrl(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    let hostname = urlObj.hostname.toLowerCase();
-    if (hostname.startsWith("www.")) {
-      hostname = hostname.substring(4);
+async function readBody(response: Response): Promise<Buffer> {
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > MAX_DOCUMENT_BYTES) {
+    await response.body?.cancel();
+    throw new Error(
+      `Document too large (${contentLength} bytes, limit ${MAX_DOCUMENT_BYTES})`
+    );
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks, size);
     }
-    let pathname = urlObj.pathname;
-    if (pathname.endsWith("/") && pathname.length > 1) {
-      pathname = pathname.slice(0, -1);
+
+    size += value.length;
+    if (size > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      throw new Error(
+        `Document too large (over the limit of ${MAX_DOCUMENT_BYTES} bytes)`
+      );
     }
-    return `${urlObj.protocol}//${hostname}${pathname}`;
-  } catch (error) {
-    return url.toLowerCase();
+    chunks.push(Buffer.from(value));
   }
 }
 
 /**
- * Extract text from HTML, removing scripts and styles
+ * Plain fetch of the page
+ */
+const directFetcher: ContentFetcher = {
+  name: "direct",
+  async fetch(url: string, request: FetchRequest): Promise<FetchedPage> {
+    const response = await fetch(url, {
+      signal: request.signal,
+      headers: {
+        "User-Agent": request.userAgent,
+        Accept:
+          "text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.9,*/*;q=0.8",
+        "Accept-Language": "en-US,en;q=0.9",
+        ...(request.etag && { "If-None-Match": request.etag }),
+        ...(request.lastModified && {
+          "If-Modified-Since": request.lastModified,
+        }),
+      },
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get("content-type") || undefined,
+      etag: response.headers.get("etag") || undefined,
+      lastModified: response.headers.get("last-modified") || undefined,
+      body: response.ok ? await readBody(response) : Buffer.alloc(0),
+    };
+  },
+};
+
+/**
+ * ScrapingBee fetcher options
+ */
+export interface ScrapingBeeFetcherOptions {
+  baseUrl?: string; // API endpoint override (e.g. a fixture server in tests)
+  renderJs?: boolean; // Render JavaScript in a headless browser (default: true)
+  premiumProxy?: boolean; // Use residential proxies for hard-to-reach sites (default: false)
+  waitMs?: number; // Extra wait after page load before capturing (default: none)
+}
+
+/**
+ * Fetches pages through the ScrapingBee API, which renders JavaScript and
+ * routes around basic bot blocking (rendered pages are not revalidated;
+ * cached ones are fetched again once their TTL runs out)
  */
-function extractText($: cheerio.CheerioAPI, selector?: string): string {
-  const element = selector ? $(selector) : $("body");
+export class ScrapingBeeFetcher implements ContentFetcher {
+  readonly name = "scrapingbee";
+  private apiKey: string;
+  private baseUrl: string;
+  private renderJs: boolean;
+  private premiumProxy: boolean;
+  private waitMs?: number;
+
+  constructor(apiKey: string, options?: ScrapingBeeFetcherOptions) {
+    if (!apiKey) {
+      throw new Error("ScrapingBee API key is required");
+    }
+    this.apiKey = apiKey;
+    this.baseUrl = options?.baseUrl || SCRAPINGBEE_API_URL;
+    this.renderJs = options?.renderJs ?? true;
+    this.premiumProxy = options?.premiumProxy || false;
+    this.waitMs = options?.waitMs;
+  }
 
-  // Remove unwanted elements
-  element.find("script, style, nav, footer, header, aside, iframe").remove();
+  async fetch(url: string, request: FetchRequest): Promise<FetchedPage> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      url,
+      render_js: String(this.renderJs),
+      // Return the target page's status code instead of wrapping it
+      transparent_status_code: "true",
+    });
+    if (this.premiumProxy) {
+      params.append("premium_proxy", "true");
+    }
+    if (this.waitMs) {
+      params.append("wait", this.waitMs.toString());
+    }
 
-  // Get text and clean it up
-  const text = element
-    .text()
-    .replace(/\s+/g, " ") // Replace multiple spaces with single space
-    .replace(/\n+/g, " ") // Replace newlines with space
-    .trim();
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`, {
+      signal: request.signal,
+    });
 
-  return text;
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get("content-type") || undefined,
+      body: response.ok ? await readBody(response) : Buffer.alloc(0),
+    };
+  }
 }
 
 /**
- * Extract main content from the page
- * Tries common content selectors
+ * Factory function to create ScrapingBee fetcher
  */
-function extractMainContent($: cheerio.CheerioAPI): string {
-  // Common content selectors (in priority order)
-  const contentSelectors = [
-    "article",
-    '[role="main"]',
-    "main",
-    ".post-content",
-    ".article-content",
-    ".entry-content",
-    ".content",
-    "#content",
-    ".post",
-    ".article",
-  ];
+export function createScrapingBeeFetcher(
+  apiKey: string,
+  options?: ScrapingBeeFetcherOptions
+): ScrapingBeeFetcher {
+  return new ScrapingBeeFetcher(apiKey, options);
+}
+
+/**
+ * Set content fetching defaults for all extractions (options passed to
+ * extractContent take precedence)
+ */
+export function configureContentFetching(config: ContentFetchingConfig): void {
+  defaultFetchingConfig = config;
+}
+
+/**
+ * Parse domain fetch rules ("spa.example.com=render,example.org=direct")
+ */
+export function parseDomainFetchRules(value: string): DomainFetchRule[] {
+  const modes: FetchMode[] = ["auto", "direct", "render"];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [domain, mode] = entry.split("=").map((part) => part.trim());
+      if (!domain || !modes.includes(mode as FetchMode)) {
+        throw new Error(
+          `Invalid domain fetch rule "${entry}" (expected domain=${modes.join("|")})`
+        );
+      }
+      return { domain: domain.toLowerCase(), mode: mode as FetchMode };
+    });
+}
 
-  for (const selector of contentSelectors) {
-    const content = extractText($, selector);
-    if (content.length > 100) {
-      // Minimum viable content length
-      return content;
+/**
+ * Get the fetch mode for a URL (the most specific matching rule wins)
+ */
+function getFetchMode(url: string, rules: DomainFetchRule[] = []): FetchMode {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return "auto";
+  }
+
+  let match: DomainFetchRule | undefined;
+  for (const rule of rules) {
+    const domain = rule.domain.replace(/^www\./, "");
+    const matches = hostname === domain || hostname.endsWith(`.${domain}`);
+    if (matches && (!match || domain.length > match.domain.length)) {
+      match = { ...rule, domain };
     }
   }
 
-  // Fallback to body
-  return extractText($);
+  return match?.mode || "auto";
+}
+
+/**
+ * Extract content from a PDF or DOCX document
+ */
+async function extractDocument(
+  url: string,
+  type: "pdf" | "docx",
+  body: Buffer,
+  opts: ExtractionOptions,
+  fetchedAt: number,
+  fetcher: string
+): Promise<ExtractedContent> {
+  const document = await parseDocument(type, body);
+  const wordCount = document.text ? document.text.split(/\s+/).length : 0;
+
+  return {
+    url,
+    normalizedUrl: normalizeUrl(url),
+    title: document.title || document.headings[0],
+    snippet: createSnippet(
+      document.text,
+      opts.minSnippetLength!,
+      opts.maxSnippetLength!
+    ),
+    fullContent: document.text.length > 1000 ? document.text : undefined, // Only store if substantial
+    headings: document.headings,
+    images: [],
+    metadata: {
+      description: document.description,
+      author: document.author,
+      publishedDate: document.publishedDate,
+      keywords: document.keywords,
+      contentType: type,
+    },
+    wordCount,
+    fetchStatus: "success",
+    fetchedAt,
+    fetcher,
+  };
+}
+
+/**
+ * Normalize URL for deduplication
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    let hostname = urlObj.hostname.toLowerCase();
+    if (hostname.startsWith("www.")) {
+      hostname = hostname.substring(4);
+    }
+    let pathname = urlObj.pathname;
+    if (pathname.endsWith("/") && pathname.length > 1) {
+      pathname = pathname.slice(0, -1);
+    }
+    return `${urlObj.protocol}//${hostname}${pathname}`;
+  } catch (error) {
+    return url.toLowerCase();
+  }
 }
 
 /**
@@ -237,112 +554,197 @@ function extractImages($: cheerio.CheerioAPI, baseUrl: string): Array<{
 }
 
 /**
- * Extract metadata from the page
+ * Map a schema.org or OpenGraph type to a content type
  */
-function extractMetadata($: cheerio.CheerioAPI): ExtractedContent["metadata"] {
-  const metadata: ExtractedContent["metadata"] = {};
-
-  // Description
-  metadata.description =
-    $('meta[name="description"]').attr("content") ||
-    $('meta[property="og:description"]').attr("content");
-
-  // Author
-  metadata.author =
-    $('meta[name="author"]').attr("content") ||
-    $('meta[property="article:author"]').attr("content") ||
-    $('[rel="author"]').text().trim();
-
-  // Published date
-  metadata.publishedDate =
-    $('meta[property="article:published_time"]').attr("content") ||
-    $('meta[name="date"]').attr("content") ||
-    $('time[datetime]').attr("datetime");
+function getContentType(
+  $: cheerio.CheerioAPI,
+  schemaType?: string,
+  ogType?: string
+): string | undefined {
+  if (schemaType === "ScholarlyArticle") {
+    return "scholarly-article";
+  }
+  if (schemaType && /Article$|^BlogPosting$|^Report$/.test(schemaType)) {
+    return "article";
+  }
+  if (schemaType === "Product") {
+    return "product";
+  }
+  if (schemaType === "VideoObject") {
+    return "video";
+  }
+  if (ogType) {
+    return ogType;
+  }
+  if ($("article").length > 0) {
+    return "article";
+  }
+  if ($("video").length > 0 || $('[property="og:video"]').length > 0) {
+    return "video";
+  }
+  return undefined;
+}
 
+/**
+ * Extract metadata from the page
+ * Structured data (JSON-LD, microdata, OpenGraph) comes first, then plain
+ * meta tags and markup
+ */
+function extractMetadata(
+  $: cheerio.CheerioAPI,
+  structured: StructuredMetadata
+): ExtractedContent["metadata"] {
   // Keywords
   const keywordsStr = $('meta[name="keywords"]').attr("content");
-  if (keywordsStr) {
-    metadata.keywords = keywordsStr.split(",").map((k) => k.trim());
-  }
-
-  // Open Graph image
-  metadata.ogImage = $('meta[property="og:image"]').attr("content");
 
-  // Try to detect content type
-  const ogType = $('meta[property="og:type"]').attr("content");
-  if (ogType) {
-    metadata.contentType = ogType;
-  } else if ($("article").length > 0) {
-    metadata.contentType = "article";
-  } else if ($("video").length > 0 || $('[property="og:video"]').length > 0) {
-    metadata.contentType = "video";
-  }
+  return {
+    description:
+      structured.description || $('meta[name="description"]').attr("content"),
+    author:
+      structured.author ||
+      $('meta[name="author"]').attr("content") ||
+      $('[rel="author"]').first().text().trim() ||
+      undefined,
+    publishedDate:
+      structured.publishedDate ||
+      $('meta[name="date"]').attr("content") ||
+      $("time[datetime]").attr("datetime"),
+    keywords:
+      structured.keywords || keywordsStr?.split(",").map((k) => k.trim()),
+    ogImage: structured.imageUrl,
+    contentType: getContentType($, structured.schemaType, structured.ogType),
+    modifiedDate: structured.modifiedDate,
+    section: structured.section,
+    canonicalUrl: structured.canonicalUrl,
+    siteName: structured.siteName,
+    language: structured.language,
+    brand: structured.brand,
+    price: structured.price,
+  };
+}
 
-  return metadata;
+/**
+ * Create an extraction result for a page that could not be fetched
+ */
+function createUnfetchedResult(
+  url: string,
+  fetchStatus: ExtractedContent["fetchStatus"],
+  fetchError: string,
+  fetchedAt: number,
+  fetcher?: string
+): ExtractedContent {
+  return {
+    url,
+    normalizedUrl: normalizeUrl(url),
+    snippet: "",
+    headings: [],
+    images: [],
+    metadata: {},
+    wordCount: 0,
+    fetchStatus,
+    fetchError,
+    fetchedAt,
+    fetcher,
+  };
 }
 
 /**
- * Extract content from a URL
+ * Fetch a page with one fetcher and extract its content
+ * With a cached result, the request is conditional and a 304 returns the
+ * cached result as revalidated.
  */
-export async function extractContent(
+async function fetchAndExtract(
+  fetcher: ContentFetcher,
   url: string,
-  options?: ExtractionOptions
+  opts: ExtractionOptions,
+  timeout: number,
+  cached?: ExtractedContent
 ): Promise<ExtractedContent> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
   const fetchedAt = Date.now();
 
   try {
-    // Create abort controller for timeout
+    // Create abort controller for timeout (also aborted by the caller's signal)
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+    if (opts.signal?.aborted) {
+      controller.abort();
+    }
 
     // Fetch the page
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        "User-Agent": opts.userAgent!,
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
+    const page = await fetcher
+      .fetch(url, {
+        userAgent: opts.userAgent!,
+        signal: controller.signal,
+        etag: cached?.etag,
+        lastModified: cached?.lastModified,
+      })
+      .finally(() => {
+        // The caller's signal is shared by many extractions
+        clearTimeout(timeoutId);
+        opts.signal?.removeEventListener("abort", onAbort);
+      });
 
-    clearTimeout(timeoutId);
+    if (page.status === 304 && cached) {
+      return { ...cached, fetchedAt, cacheStatus: "revalidated" };
+    }
+
+    // Response details kept with the result (for the content cache)
+    const response = {
+      etag: page.etag,
+      lastModified: page.lastModified,
+      responseBytes: page.body.length,
+    };
 
     // Check for errors
-    if (!response.ok) {
-      if (response.status === 403 || response.status === 401) {
-        return {
+    if (page.status < 200 || page.status >= 300) {
+      if (page.status === 403 || page.status === 401) {
+        return createUnfetchedResult(
           url,
-          normalizedUrl: normalizeUrl(url),
-          snippet: "",
-          headings: [],
-          images: [],
-          metadata: {},
-          wordCount: 0,
-          fetchStatus: "blocked",
-          fetchError: `Access denied (${response.status})`,
+          "blocked",
+          `Access denied (${page.status})`,
           fetchedAt,
-        };
+          fetcher.name
+        );
       }
 
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw new Error(`HTTP ${page.status}: ${page.statusText}`);
     }
 
-    // Get HTML content
-    const html = await response.text();
+    // Documents (PDF, DOCX) are parsed into text rather than as HTML
+    const documentType = detectDocumentType(url, page.contentType, page.body);
+    if (documentType !== "html") {
+      const document = await extractDocument(
+        url,
+        documentType,
+        page.body,
+        opts,
+        fetchedAt,
+        fetcher.name
+      );
+      return {
+        ...document,
+        ...response,
+        fetchDurationMs: Date.now() - fetchedAt,
+      };
+    }
 
     // Parse with cheerio
+    const html = page.body.toString("utf-8");
     const $ = cheerio.load(html);
 
-    // Extract page title
+    // Extract page title (the headline from structured data, if any,
+    // rather than the <title> with its site name suffix)
+    const structured = extractStructuredData($, url);
     const title =
+      structured.title ||
       $("title").text().trim() ||
       $('meta[property="og:title"]').attr("content") ||
       $("h1").first().text().trim();
 
     // Extract main content
-    const fullContent = extractMainContent($);
+    const fullContent = extractMainContent(html);
     const wordCount = fullContent.split(/\s+/).length;
 
     // Create snippet
@@ -355,7 +757,7 @@ export async function extractContent(
     // Extract other elements
     const headings = extractHeadings($);
     const images = extractImages($, url);
-    const metadata = extractMetadata($);
+    const metadata = extractMetadata($, structured);
 
     return {
       url,
@@ -369,39 +771,233 @@ export async function extractContent(
       wordCount,
       fetchStatus: "success",
       fetchedAt,
+      fetcher: fetcher.name,
+      ...response,
+      fetchDurationMs: Date.now() - fetchedAt,
     };
   } catch (error: any) {
     // Handle different error types
     if (error.name === "AbortError") {
-      return {
+      return createUnfetchedResult(
         url,
-        normalizedUrl: normalizeUrl(url),
-        snippet: "",
-        headings: [],
-        images: [],
-        metadata: {},
-        wordCount: 0,
-        fetchStatus: "timeout",
-        fetchError: "Request timeout",
+        "timeout",
+        "Request timeout",
         fetchedAt,
-      };
+        fetcher.name
+      );
     }
 
-    return {
+    return createUnfetchedResult(
       url,
-      normalizedUrl: normalizeUrl(url),
-      snippet: "",
-      headings: [],
-      images: [],
-      metadata: {},
-      wordCount: 0,
-      fetchStatus: "failed",
-      fetchError: error.message || "Unknown error",
+      "failed",
+      error.message || "Unknown error",
       fetchedAt,
-    };
+      fetcher.name
+    );
   }
 }
 
+/**
+ * Check whether a direct fetch result should be retried with the rendering
+ * fetcher (blocked, timed out, or too little content to be the real page).
+ * Documents are never re-rendered (e.g. scanned PDFs without a text layer).
+ */
+function needsRendering(result: ExtractedContent): boolean {
+  const isDocument =
+    result.metadata.contentType === "pdf" ||
+    result.metadata.contentType === "docx";
+
+  return (
+    result.fetchStatus === "blocked" ||
+    result.fetchStatus === "timeout" ||
+    (result.fetchStatus === "success" &&
+      !isDocument &&
+      result.wordCount < MIN_DIRECT_CONTENT_WORDS)
+  );
+}
+
+/**
+ * Get the host requests to a URL count against (undefined if invalid)
+ */
+function getHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Fetch and extract a page with the direct fetcher, falling back to the
+ * rendering fetcher (if configured) according to the domain's fetch mode
+ * A cached result is revalidated by the direct fetch.
+ */
+async function fetchWithFallback(
+  url: string,
+  opts: ExtractionOptions,
+  cached?: ExtractedContent
+): Promise<ExtractedContent> {
+  const renderingFetcher = opts.renderingFetcher;
+  const mode = getFetchMode(url, opts.domainRules);
+
+  let directResult: ExtractedContent | undefined;
+  if (mode !== "render" || !renderingFetcher) {
+    directResult = await fetchAndExtract(
+      directFetcher,
+      url,
+      opts,
+      opts.timeout!,
+      cached
+    );
+
+    if (
+      !renderingFetcher ||
+      mode === "direct" ||
+      !needsRendering(directResult) ||
+      opts.signal?.aborted
+    ) {
+      return directResult;
+    }
+  }
+
+  const renderedResult = await fetchAndExtract(
+    renderingFetcher,
+    url,
+    opts,
+    opts.renderTimeout!
+  );
+
+  // Keep the direct result if rendering did no better
+  if (directResult && renderedResult.fetchStatus !== "success") {
+    return directResult;
+  }
+  return renderedResult;
+}
+
+/**
+ * Look up a URL in the content cache (failed lookups count as misses)
+ */
+async function readContentCache(
+  cache: ContentCache,
+  key: string
+): Promise<CachedContent | null> {
+  try {
+    return await cache.get(key);
+  } catch (error: any) {
+    console.warn(`Content cache lookup failed for ${key}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Store an extraction result in the content cache (failures are logged,
+ * the result is still returned)
+ */
+async function writeContentCache(
+  cache: ContentCache,
+  key: string,
+  result: ExtractedContent,
+  ttlMs: number
+): Promise<void> {
+  const { cacheStatus, ...content } = result;
+  const cachedAt = Date.now();
+
+  try {
+    await cache.set(key, { content, cachedAt, expiresAt: cachedAt + ttlMs });
+  } catch (error: any) {
+    console.warn(`Content cache update failed for ${key}:`, error.message);
+  }
+}
+
+/**
+ * Copy of options without undefined values, so that unset options don't
+ * override the defaults they are merged over
+ */
+function withoutUndefined<T extends object>(options?: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options || {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Extract content from a URL
+ * Checks robots.txt and the content cache, then waits for a request slot
+ * on the host
+ */
+export async function extractContent(
+  url: string,
+  options?: ExtractionOptions
+): Promise<ExtractedContent> {
+  const opts = {
+    ...DEFAULT_OPTIONS,
+    ...withoutUndefined(defaultFetchingConfig),
+    ...withoutUndefined(options),
+  };
+  const host = getHost(url);
+
+  // Invalid URLs go straight to the fetch, which reports the error
+  if (!host) {
+    return fetchWithFallback(url, opts);
+  }
+
+  let crawlDelayMs = 0;
+  if (opts.respectRobotsTxt) {
+    const robots = await getRobotsRules(url, opts.userAgent!);
+    if (!isAllowedByRobots(robots, url)) {
+      return createUnfetchedResult(
+        url,
+        "disallowed",
+        robots.disallowAll
+          ? "robots.txt unavailable (server error)"
+          : "Disallowed by robots.txt",
+        Date.now()
+      );
+    }
+    crawlDelayMs = Math.min(robots.crawlDelayMs || 0, MAX_CRAWL_DELAY_MS);
+  }
+
+  const cache = opts.contentCache;
+  const cacheKey = getContentCacheKey(url);
+  const cached = cache ? await readContentCache(cache, cacheKey) : null;
+  if (cached && cached.expiresAt > Date.now()) {
+    return { ...cached.content, cacheStatus: "hit" };
+  }
+
+  let release: () => void;
+  try {
+    release = await acquireHostSlot(
+      host,
+      {
+        maxConcurrent: opts.domainConcurrency!,
+        minIntervalMs: Math.max(opts.domainIntervalMs!, crawlDelayMs),
+      },
+      opts.signal
+    );
+  } catch (error) {
+    // Cancelled by the caller while waiting for the host
+    return createUnfetchedResult(
+      url,
+      "timeout",
+      "Cancelled while waiting for a request slot",
+      Date.now()
+    );
+  }
+  let result: ExtractedContent;
+  try {
+    result = await fetchWithFallback(url, opts, cached?.content);
+  } finally {
+    release();
+  }
+
+  if (!cache) {
+    return result;
+  }
+  if (result.fetchStatus === "success") {
+    await writeContentCache(cache, cacheKey, result, opts.cacheTtlMs!);
+  }
+  return { ...result, cacheStatus: result.cacheStatus || "miss" };
+}
+
 /**
  * Extract content with retry logic
  */
@@ -416,8 +1012,12 @@ export async function extractContentWithRetry(
     try {
       const result = await extractContent(url, options);
 
-      // Don't retry on blocked or timeout (won't help)
-      if (result.fetchStatus === "blocked" || result.fetchStatus === "timeout") {
+      // Don't retry on blocked, timeout or disallowed (won't help)
+      if (
+        result.fetchStatus === "blocked" ||
+        result.fetchStatus === "timeout" ||
+        result.fetchStatus === "disallowed"
+      ) {
         return result;
       }
 
@@ -456,25 +1056,34 @@ export async function extractContentWithRetry(
 
 /**
  * Extract content from multiple URLs in parallel (with concurrency limit)
+ * Results are in the order of the URLs; URLs not reached before
+ * cancellation are left out.
  */
 export async function extractMultipleContents(
   urls: string[],
   options?: ExtractionOptions,
   concurrency: number = 3
 ): Promise<ExtractedContent[]> {
-  const results: ExtractedContent[] = [];
-  const queue = [...urls];
-
-  // Process URLs with limited concurrency
-  while (queue.length > 0) {
-    const batch = queue.splice(0, concurrency);
-    const batchResults = await Promise.all(
-      batch.map((url) => extractContentWithRetry(url, options))
-    );
-    results.push(...batchResults);
-  }
+  const results = new Map<number, ExtractedContent>();
+  const queue = urls.map((url, index) => ({ url, index }));
+
+  // Each worker takes the next URL whose host is idle (or else the next
+  // URL), so a crawl-delayed host doesn't hold up the others
+  const worker = async () => {
+    while (queue.length > 0 && !options?.signal?.aborted) {
+      const next = queue.findIndex(({ url }) => isHostIdle(getHost(url) || ""));
+      const [{ url, index }] = queue.splice(Math.max(next, 0), 1);
+      results.set(index, await extractContentWithRetry(url, options));
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, concurrency) }, () => worker())
+  );
 
-  return results;
+  return [...results.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, result]) => result);
 }
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Email Delivery Channel
+ *
+ * Adapter that wraps the Resend email service to implement DeliveryChannel
+ */
+
+import type { Project } from "../../models/project";
+import type {
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
+} from "../../interfaces/delivery-channel";
+import { sendReportEmail } from "../email";
+
+/**
+ * Email implementation of DeliveryChannel
+ */
+export class EmailDeliveryChannel implements DeliveryChannel {
+  readonly maxRetries = 5;
+
+  /**
+   * Use the configured address, falling back to the account email
+   */
+  resolveAddress(project: Project, fallbackEmail?: string): string | undefined {
+    return project.deliveryConfig?.email?.address || fallbackEmail;
+  }
+
+  /**
+   * Send the report email
+   */
+  async deliver(request: DeliveryRequest): Promise<DeliveryResult> {
+    const result = await sendReportEmail(
+      request.address,
+      request.report,
+      request.projectId
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error?.message || String(result.error),
+      };
+    }
+
+    return { success: true, messageId: result.id };
+  }
+
+  /**
+   * Get the channel name
+   */
+  getName(): string {
+    return "Email";
+  }
+}
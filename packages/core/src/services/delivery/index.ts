@@ -0,0 +1,349 @@
+/**
+ * Report delivery service
+ *
+ * Dispatches compiled reports through the delivery channel registered for
+ * the project's resultsDestination and records the outcome on the
+ * delivery log.
+ */
+
+import { db } from "../firebase";
+import type { Project } from "../../models/project";
+import type { DeliveryLog } from "../../models/delivery-log";
+import type { CompiledReport } from "../../interfaces/llm-provider";
+import type {
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
+} from "../../interfaces/delivery-channel";
+import { updateDeliveryLogStatus } from "../research-engine/result-storage";
+import { buildReportUrl } from "../../utils/report-url";
+import { getDeliveryChannel } from "./registry";
+
+export {
+  registerDeliveryChannel,
+  getDeliveryChannel,
+  getRegisteredDestinations,
+} from "./registry";
+export { EmailDeliveryChannel } from "./email-channel";
+export { SlackDeliveryChannel } from "./slack-channel";
+export { SmsDeliveryChannel } from "./sms-channel";
+
+// Scheduled retry defaults
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_RETRY_MAX_DELAY_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+/**
+ * Outcome of a prepared report delivery
+ */
+export interface PreparedDeliveryOutcome {
+  state: "delivered" | "retrying" | "failed" | "not_due";
+  result?: DeliveryResult; // Result of this attempt (undefined if nothing was sent)
+  retryCount: number; // Retries used so far
+  nextRetryAt?: number; // When the next retry is due (retrying/not_due)
+}
+
+/**
+ * Get the delay before a scheduled delivery retry
+ * Doubles with each retry, capped at DELIVERY_RETRY_MAX_DELAY_MS
+ */
+export function getDeliveryRetryDelayMs(retryCount: number): number {
+  const baseDelay = parseInt(
+    process.env.DELIVERY_RETRY_BASE_DELAY_MS ||
+      String(DEFAULT_RETRY_BASE_DELAY_MS),
+    10
+  );
+  const maxDelay = parseInt(
+    process.env.DELIVERY_RETRY_MAX_DELAY_MS ||
+      String(DEFAULT_RETRY_MAX_DELAY_MS),
+    10
+  );
+  return Math.min(baseDelay * Math.pow(2, retryCount), maxDelay);
+}
+
+/**
+ * Resolve the channel and build the delivery request for a project
+ * Returns a failed result if the project cannot be delivered to
+ */
+function prepareDelivery(params: {
+  userId: string;
+  projectId: string;
+  deliveryLogId: string;
+  project: Project;
+  report: CompiledReport;
+  fallbackEmail?: string;
+}):
+  | { channel: DeliveryChannel; request: DeliveryRequest }
+  | { channel?: DeliveryChannel; error: DeliveryResult } {
+  const { userId, projectId, deliveryLogId, project, report } = params;
+  const channel = getDeliveryChannel(project.resultsDestination);
+
+  if (!channel) {
+    return {
+      error: {
+        success: false,
+        error: `No delivery channel registered for "${project.resultsDestination}"`,
+      },
+    };
+  }
+
+  const address = channel.resolveAddress(project, params.fallbackEmail);
+  if (!address) {
+    return {
+      channel,
+      error: {
+        success: false,
+        error: `No ${channel.getName()} delivery address configured`,
+      },
+    };
+  }
+
+  return {
+    channel,
+    request: {
+      userId,
+      projectId,
+      deliveryLogId,
+      project,
+      report,
+      address,
+      reportUrl: buildReportUrl(projectId, deliveryLogId),
+    },
+  };
+}
+
+/**
+ * Send a report through a channel, converting thrown errors to results
+ */
+async function attemptDelivery(
+  channel: DeliveryChannel,
+  request: DeliveryRequest
+): Promise<DeliveryResult> {
+  try {
+    return await channel.deliver(request);
+  } catch (error: any) {
+    return { success: false, error: error.message || String(error) };
+  }
+}
+
+/**
+ * Deliver a report through the project's configured channel
+ *
+ * Failed sends are retried with exponential backoff, and the outcome
+ * (status, error and retry count) is recorded on the delivery log.
+ * Returns null when the project has no delivery destination.
+ */
+export async function deliverReport(params: {
+  userId: string;
+  projectId: string;
+  deliveryLogId: string;
+  project: Project;
+  report: CompiledReport;
+  fallbackEmail?: string; // Account email used when no address is configured
+  maxAttempts?: number; // Send attempts before giving up (default: 3)
+}): Promise<DeliveryResult | null> {
+  const { userId, projectId, deliveryLogId, project } = params;
+  const maxAttempts = params.maxAttempts || 3;
+
+  // Nothing to send - the report is only available in the app
+  if (project.resultsDestination === "none") {
+    await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+      status: "success",
+    });
+    return null;
+  }
+
+  const prepared = prepareDelivery(params);
+  let result: DeliveryResult;
+  let attempts = 0;
+
+  if ("error" in prepared) {
+    result = prepared.error;
+  } else {
+    const { channel, request } = prepared;
+
+    do {
+      attempts++;
+      console.log(
+        `Delivering report via ${channel.getName()} (attempt ${attempts}/${maxAttempts})...`
+      );
+      result = await attemptDelivery(channel, request);
+      // Continue after the parts that already went out
+      request.resumeFromPart = result.partsDelivered ?? request.resumeFromPart;
+
+      if (!result.success && attempts < maxAttempts) {
+        console.warn(
+          `Delivery attempt ${attempts}/${maxAttempts} failed:`,
+          result.error
+        );
+        // Exponential backoff
+        const delay = Math.min(1000 * Math.pow(2, attempts - 1), 10000);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    } while (!result.success && attempts < maxAttempts);
+  }
+
+  if (result.success) {
+    console.log("Report delivered successfully", result.messageId || "");
+  } else {
+    console.error("Failed to deliver report:", result.error);
+  }
+
+  try {
+    await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+      status: result.success ? "success" : "failed",
+      error: result.error,
+      retryCount: Math.max(attempts - 1, 0),
+      deliveredParts: result.success ? undefined : result.partsDelivered,
+    });
+  } catch (logError) {
+    console.error("Failed to record delivery status:", logError);
+  }
+
+  return result;
+}
+
+/**
+ * Deliver a report that was prepared earlier and stored in a delivery log
+ *
+ * Makes a single attempt per call. A failed attempt moves the log to
+ * "retrying" with a backoff-based nextRetryAt; once the channel's
+ * maxRetries is used up the log is marked "failed" (terminal).
+ * Logs whose retry is not yet due are left untouched.
+ */
+export async function deliverPreparedReport(
+  userId: string,
+  projectId: string,
+  deliveryLogId: string
+): Promise<PreparedDeliveryOutcome> {
+  const userRef = db.collection("users").doc(userId);
+  const projectRef = userRef.collection("projects").doc(projectId);
+  const deliveryLogRef = projectRef
+    .collection("deliveryLogs")
+    .doc(deliveryLogId);
+
+  const [userDoc, projectDoc, deliveryLogDoc] = await Promise.all([
+    userRef.get(),
+    projectRef.get(),
+    deliveryLogRef.get(),
+  ]);
+
+  if (!projectDoc.exists) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+  if (!deliveryLogDoc.exists) {
+    throw new Error(`Delivery log ${deliveryLogId} not found`);
+  }
+
+  const project = { id: projectDoc.id, ...projectDoc.data() } as Project;
+  const deliveryLog = {
+    id: deliveryLogDoc.id,
+    ...deliveryLogDoc.data(),
+  } as DeliveryLog;
+  const now = Date.now();
+
+  // Already settled (e.g. the project update failed after the last attempt)
+  if (deliveryLog.status === "success") {
+    return { state: "delivered", retryCount: deliveryLog.retryCount || 0 };
+  }
+  if (deliveryLog.status === "failed") {
+    return { state: "failed", retryCount: deliveryLog.retryCount || 0 };
+  }
+
+  // Backing off - wait for the scheduled retry
+  if (
+    deliveryLog.status === "retrying" &&
+    deliveryLog.nextRetryAt &&
+    deliveryLog.nextRetryAt > now
+  ) {
+    return {
+      state: "not_due",
+      retryCount: deliveryLog.retryCount || 0,
+      nextRetryAt: deliveryLog.nextRetryAt,
+    };
+  }
+
+  // Nothing to send - the report is only available in the app
+  if (project.resultsDestination === "none") {
+    await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+      status: "success",
+    });
+    return { state: "delivered", retryCount: 0 };
+  }
+
+  const report: CompiledReport = {
+    markdown: deliveryLog.reportMarkdown,
+    title: deliveryLog.reportTitle,
+    summary: deliveryLog.reportSummary || "",
+    resultCount: deliveryLog.stats.includedResults,
+    averageScore: deliveryLog.stats.averageRelevancyScore,
+  };
+
+  const prepared = prepareDelivery({
+    userId,
+    projectId,
+    deliveryLogId,
+    project,
+    report,
+    fallbackEmail: userDoc.exists ? userDoc.data()?.email : undefined,
+  });
+  if (!("error" in prepared)) {
+    // Skip the parts an earlier attempt already delivered
+    prepared.request.resumeFromPart = deliveryLog.deliveredParts;
+  }
+
+  // The first attempt of a pending log is not a retry
+  const retryCount =
+    deliveryLog.status === "retrying" ? (deliveryLog.retryCount || 0) + 1 : 0;
+
+  let result: DeliveryResult;
+  if ("error" in prepared) {
+    result = prepared.error;
+  } else {
+    console.log(
+      `Delivering report via ${prepared.channel.getName()} (retry ${retryCount})...`
+    );
+    result = await attemptDelivery(prepared.channel, prepared.request);
+  }
+
+  if (result.success) {
+    console.log("Report delivered successfully", result.messageId || "");
+    await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+      status: "success",
+      retryCount,
+    });
+    return { state: "delivered", result, retryCount };
+  }
+
+  const maxRetries = prepared.channel?.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  if (retryCount < maxRetries) {
+    const nextRetryAt = now + getDeliveryRetryDelayMs(retryCount);
+    console.warn(
+      `Delivery failed (retry ${retryCount}/${maxRetries}), next attempt at ${new Date(
+        nextRetryAt
+      ).toISOString()}:`,
+      result.error
+    );
+    await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+      status: "retrying",
+      error: result.error,
+      retryCount,
+      nextRetryAt,
+      deliveredParts: result.partsDelivered,
+    });
+    return { state: "retrying", result, retryCount, nextRetryAt };
+  }
+
+  console.error(
+    `Delivery failed after ${retryCount} retries, giving up:`,
+    result.error
+  );
+  await updateDeliveryLogStatus(userId, projectId, deliveryLogId, {
+    status: "failed",
+    error: result.error,
+    retryCount,
+    deliveredParts: result.partsDelivered,
+  });
+  return { state: "failed", result, retryCount };
+}
@@ -0,0 +1,45 @@
+/**
+ * Delivery channel registry
+ *
+ * Maps a project's resultsDestination to the channel that delivers it.
+ * Email, Slack and SMS are registered by default; call
+ * registerDeliveryChannel() to override them or add new channels.
+ */
+
+import type { DeliveryChannel } from "../../interfaces/delivery-channel";
+import { EmailDeliveryChannel } from "./email-channel";
+import { SlackDeliveryChannel } from "./slack-channel";
+import { SmsDeliveryChannel } from "./sms-channel";
+
+const channels = new Map<string, DeliveryChannel>([
+  ["email", new EmailDeliveryChannel()],
+  ["slack", new SlackDeliveryChannel()],
+  ["sms", new SmsDeliveryChannel()],
+]);
+
+/**
+ * Register a delivery channel for a destination
+ * Replaces any channel already registered for it
+ */
+export function registerDeliveryChannel(
+  destination: string,
+  channel: DeliveryChannel
+): void {
+  channels.set(destination, channel);
+}
+
+/**
+ * Get the delivery channel for a destination
+ */
+export function getDeliveryChannel(
+  destination: string
+): DeliveryChannel | undefined {
+  return channels.get(destination);
+}
+
+/**
+ * List destinations with a registered channel
+ */
+export function getRegisteredDestinations(): string[] {
+  return Array.from(channels.keys());
+}
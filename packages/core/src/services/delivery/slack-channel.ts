@@ -0,0 +1,60 @@
+/**
+ * Slack Delivery Channel
+ *
+ * Adapter that wraps the Slack webhook service to implement DeliveryChannel
+ */
+
+import type { Project } from "../../models/project";
+import type {
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
+} from "../../interfaces/delivery-channel";
+import { sendReportSlack } from "../slack";
+
+/**
+ * Slack implementation of DeliveryChannel
+ */
+export class SlackDeliveryChannel implements DeliveryChannel {
+  readonly maxRetries = 5;
+
+  /**
+   * Use the configured incoming webhook URL
+   */
+  resolveAddress(project: Project): string | undefined {
+    return project.deliveryConfig?.slack?.webhookUrl;
+  }
+
+  /**
+   * Post the report to Slack
+   */
+  async deliver(request: DeliveryRequest): Promise<DeliveryResult> {
+    const result = await sendReportSlack(
+      request.address,
+      request.report,
+      request.projectId,
+      {
+        channel: request.project.deliveryConfig?.slack?.channel,
+        reportUrl: request.reportUrl,
+        skipMessages: request.resumeFromPart,
+      }
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error?.message || String(result.error),
+        partsDelivered: result.messagesSent,
+      };
+    }
+
+    return { success: true, partsDelivered: result.messagesSent };
+  }
+
+  /**
+   * Get the channel name
+   */
+  getName(): string {
+    return "Slack";
+  }
+}
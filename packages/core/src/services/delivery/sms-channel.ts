@@ -0,0 +1,55 @@
+/**
+ * SMS Delivery Channel
+ *
+ * Adapter that wraps the SMS service to implement DeliveryChannel
+ */
+
+import type { Project } from "../../models/project";
+import type {
+  DeliveryChannel,
+  DeliveryRequest,
+  DeliveryResult,
+} from "../../interfaces/delivery-channel";
+import { sendReportSms } from "../sms";
+
+/**
+ * SMS implementation of DeliveryChannel
+ */
+export class SmsDeliveryChannel implements DeliveryChannel {
+  readonly maxRetries = 3;
+
+  /**
+   * Use the configured E.164 phone number
+   */
+  resolveAddress(project: Project): string | undefined {
+    return project.deliveryConfig?.sms?.phoneNumber;
+  }
+
+  /**
+   * Send the report digest by SMS
+   */
+  async deliver(request: DeliveryRequest): Promise<DeliveryResult> {
+    const result = await sendReportSms(
+      request.address,
+      request.report,
+      request.projectId,
+      { reportUrl: request.reportUrl }
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error?.message || String(result.error),
+      };
+    }
+
+    return { success: true, messageId: result.id };
+  }
+
+  /**
+   * Get the channel name
+   */
+  getName(): string {
+    return "SMS";
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Document extraction service
+ *
+ * Detects non-HTML documents (PDF, DOCX) from the response content type, the
+ * URL and the file signature, and extracts their text, headings and
+ * document metadata (title, author, dates).
+ */
+
+import * as cheerio from "cheerio";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+/**
+ * Document types the content extractor can parse
+ */
+export type DocumentType = "html" | "pdf" | "docx";
+
+/**
+ * Text and metadata extracted from a document
+ */
+export interface ParsedDocument {
+  text: string;
+  headings: string[];
+  title?: string;
+  author?: string;
+  description?: string;
+  keywords?: string[];
+  publishedDate?: string; // ISO date string
+}
+
+const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Largest document that is read and parsed (larger ones fail extraction;
+// the built-in fetchers stop reading once a response exceeds it)
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Detect the document type of a response
+ * The Content-Type header wins unless it is missing or generic (e.g.
+ * application/octet-stream), then the file signature and URL extension
+ * decide. Anything unrecognized is treated as HTML.
+ */
+export function detectDocumentType(
+  url: string,
+  contentType: string | undefined,
+  body: Buffer
+): DocumentType {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase() || "";
+
+  if (mimeType === "application/pdf") {
+    return "pdf";
+  }
+  if (mimeType === DOCX_MIME_TYPE) {
+    return "docx";
+  }
+  if (mimeType.includes("html") || mimeType.startsWith("text/")) {
+    return "html";
+  }
+
+  // "%PDF-" signature
+  if (body.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "pdf";
+  }
+
+  let pathname = "";
+  try {
+    pathname = new URL(url).pathname.toLowerCase();
+  } catch (error) {
+    // Invalid URL, no extension to go by
+  }
+  if (pathname.endsWith(".pdf")) {
+    return "pdf";
+  }
+  // DOCX files are ZIP archives ("PK" signature)
+  if (
+    pathname.endsWith(".docx") &&
+    body.subarray(0, 2).toString("latin1") === "PK"
+  ) {
+    return "docx";
+  }
+
+  return "html";
+}
+
+/**
+ * Convert a document date to an ISO string (undefined if invalid)
+ */
+function toISODate(date: Date | string | null | undefined): string | undefined {
+  if (!date) {
+    return undefined;
+  }
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/**
+ * Collect the titles of a PDF outline (bookmarks), depth first
+ */
+function collectOutlineTitles(
+  nodes: Array<{ title?: string; items?: any[] }> | null | undefined,
+  titles: string[] = []
+): string[] {
+  for (const node of nodes || []) {
+    const title = node.title?.trim();
+    if (title) {
+      titles.push(title);
+    }
+    collectOutlineTitles(node.items, titles);
+  }
+  return titles;
+}
+
+/**
+ * Parse a PDF document
+ * Headings come from the outline (bookmarks), dates from the Info
+ * dictionary or XMP metadata
+ */
+async function parsePdf(body: Buffer): Promise<ParsedDocument> {
+  const parser = new PDFParse({ data: body });
+
+  try {
+    const textResult = await parser.getText({ pageJoiner: "" });
+    const infoResult = await parser.getInfo();
+    const info = infoResult.info || {};
+    const dates = infoResult.getDateNode();
+
+    const keywords =
+      typeof info.Keywords === "string"
+        ? info.Keywords.split(/[,;]/)
+            .map((k: string) => k.trim())
+            .filter(Boolean)
+        : undefined;
+
+    return {
+      text: textResult.text,
+      headings: collectOutlineTitles(infoResult.outline),
+      title: info.Title?.trim() || undefined,
+      author: info.Author?.trim() || undefined,
+      description: info.Subject?.trim() || undefined,
+      keywords: keywords?.length ? keywords : undefined,
+      publishedDate:
+        toISODate(dates.CreationDate) ||
+        toISODate(dates.XmpCreateDate) ||
+        toISODate(dates.ModDate),
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Parse a DOCX document
+ * Headings come from Word heading styles, metadata from docProps/core.xml
+ */
+async function parseDocx(body: Buffer): Promise<ParsedDocument> {
+  const [{ value: html }, zip] = await Promise.all([
+    mammoth.convertToHtml({ buffer: body }),
+    JSZip.loadAsync(body),
+  ]);
+
+  const $ = cheerio.load(html);
+  const headings: string[] = [];
+  $("h1, h2, h3, h4, h5, h6").each((_, element) => {
+    const text = $(element).text().trim();
+    if (text) {
+      headings.push(text);
+    }
+  });
+
+  // Separate block elements so words don't run together
+  $("p, li, h1, h2, h3, h4, h5, h6, td").append(" ");
+  const text = $.root().text();
+
+  const coreXml = await zip.file("docProps/core.xml")?.async("string");
+  const core = coreXml ? cheerio.load(coreXml, { xml: true }) : undefined;
+  const coreField = (name: string) =>
+    core?.(name.replace(":", "\\:")).first().text().trim() || undefined;
+
+  const keywords = coreField("cp:keywords")
+    ?.split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+  return {
+    text,
+    headings,
+    title: coreField("dc:title"),
+    author: coreField("dc:creator"),
+    description: coreField("dc:description") || coreField("dc:subject"),
+    keywords: keywords?.length ? keywords : undefined,
+    publishedDate: toISODate(coreField("dcterms:created")),
+  };
+}
+
+/**
+ * Extract text and metadata from a PDF or DOCX document
+ * (the size is checked again for bodies from custom fetchers)
+ */
+export async function parseDocument(
+  type: Exclude<DocumentType, "html">,
+  body: Buffer
+): Promise<ParsedDocument> {
+  if (body.length > MAX_DOCUMENT_BYTES) {
+    throw new Error(
+      `Document too large (${body.length} bytes, limit ${MAX_DOCUMENT_BYTES})`
+    );
+  }
+
+  const document =
+    type === "pdf" ? await parsePdf(body) : await parseDocx(body);
+
+  return {
+    ...document,
+    text: document.text.replace(/\s+/g, " ").trim(),
+  };
+}
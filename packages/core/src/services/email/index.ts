@@ -93,3 +93,96 @@ export async function sendReportEmail(
     return { success: false, error };
   }
 }
+
+/**
+ * Send an operational email to an administrator (plain markdown content)
+ */
+export async function sendAdminEmail(
+  to: string,
+  subject: string,
+  markdown: string
+): Promise<{ success: boolean; id?: string; error?: any }> {
+  try {
+    const resend = getResendClient();
+
+    const fromEmail = process.env.RESEND_FROM_EMAIL;
+    if (!fromEmail) {
+      throw new Error("RESEND_FROM_EMAIL is not set in environment variables");
+    }
+
+    const html = await marked.parse(markdown, { async: true });
+
+    const { data, error } = await resend.emails.send({
+      from: fromEmail,
+      to: [to],
+      subject,
+      html,
+      text: markdown,
+    });
+
+    if (error) {
+      console.error("Error sending admin email:", error);
+      return { success: false, error };
+    }
+
+    return { success: true, id: data?.id };
+  } catch (error) {
+    console.error("Failed to send admin email:", error);
+    return { success: false, error };
+  }
+}
+
+/**
+ * Notify a user that a project was paused because its spending budget ran out
+ */
+export async function sendBudgetExceededEmail(
+  to: string,
+  details: {
+    projectTitle: string;
+    scope: "user" | "project";
+    limitUsd: number;
+    spentUsd: number;
+  }
+): Promise<{ success: boolean; id?: string; error?: any }> {
+  try {
+    const resend = getResendClient();
+
+    const fromEmail = process.env.RESEND_FROM_EMAIL;
+    if (!fromEmail) {
+      throw new Error("RESEND_FROM_EMAIL is not set in environment variables");
+    }
+
+    const budgetLabel =
+      details.scope === "project"
+        ? "this project's monthly budget"
+        : "your monthly budget";
+    const markdown = [
+      `Research for **${details.projectTitle}** has been paused because it reached ${budgetLabel}.`,
+      "",
+      `- Budget: $${details.limitUsd.toFixed(2)}`,
+      `- Spent this month: $${details.spentUsd.toFixed(2)}`,
+      "",
+      "Any results already found are still delivered. Research resumes automatically next month, or as soon as the budget is raised.",
+    ].join("\n");
+
+    const html = await marked.parse(markdown, { async: true });
+
+    const { data, error } = await resend.emails.send({
+      from: fromEmail,
+      to: [to],
+      subject: `Research paused: ${details.projectTitle}`,
+      html,
+      text: markdown,
+    });
+
+    if (error) {
+      console.error("Error sending budget email:", error);
+      return { success: false, error };
+    }
+
+    return { success: true, id: data?.id };
+  } catch (error) {
+    console.error("Failed to send budget email:", error);
+    return { success: false, error };
+  }
+}
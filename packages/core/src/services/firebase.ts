@@ -44,9 +44,11 @@ function initializeFirebase(): void {
 
   initialized = true;
 
+  // The Firestore emulator needs no credentials
   const hasAdminCredentials =
     process.env.FIREBASE_ADMIN_CLIENT_EMAIL ||
-    process.env.FIREBASE_SERVICE_ACCOUNT_PATH;
+    process.env.FIREBASE_SERVICE_ACCOUNT_PATH ||
+    process.env.FIRESTORE_EMULATOR_HOST;
 
   useAdminSDK = !!(isNode && hasAdminCredentials);
 
@@ -91,6 +93,14 @@ function initializeFirebase(): void {
           });
 
           console.log("Firebase Admin initialized with environment variables");
+        } else if (process.env.FIRESTORE_EMULATOR_HOST) {
+          admin.initializeApp({
+            projectId: process.env.FIREBASE_PROJECT_ID || "demo-research",
+          });
+
+          console.log(
+            `Firebase Admin initialized for emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`
+          );
         }
       }
 
@@ -0,0 +1,144 @@
+/**
+ * Per-host politeness
+ *
+ * Limits how many requests run against one host at a time and spaces
+ * their start times (e.g. by robots.txt crawl-delay). State is shared by
+ * all extractions in the process, so concurrent research runs are polite
+ * together.
+ */
+
+/**
+ * Limits for requests to one host
+ */
+export interface HostLimits {
+  maxConcurrent: number; // Requests in flight at once
+  minIntervalMs: number; // Minimum time between request starts
+}
+
+interface HostState {
+  active: number;
+  nextStartAt: number; // Earliest start of the next request
+  waiting: Array<() => void>;
+}
+
+// Idle hosts are forgotten after this long
+const HOST_STATE_TTL_MS = 10 * 60 * 1000;
+
+const hosts = new Map<string, HostState>();
+
+/**
+ * Forget hosts that have been idle for a while
+ */
+function pruneHosts(now: number): void {
+  for (const [host, state] of hosts) {
+    if (
+      state.active === 0 &&
+      state.waiting.length === 0 &&
+      state.nextStartAt + HOST_STATE_TTL_MS < now
+    ) {
+      hosts.delete(host);
+    }
+  }
+}
+
+/**
+ * Check whether a request to the host could start right away
+ */
+export function isHostIdle(host: string): boolean {
+  const state = hosts.get(host);
+  return !state || (state.active === 0 && state.nextStartAt <= Date.now());
+}
+
+/**
+ * Wait until woken up from the host's queue
+ * Rejects (and leaves the queue) when the signal is aborted
+ */
+function waitInQueue(state: HostState, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      const index = state.waiting.indexOf(wake);
+      if (index !== -1) {
+        state.waiting.splice(index, 1);
+      }
+      reject(signal!.reason);
+    };
+    const wake = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+
+    state.waiting.push(wake);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for the given time
+ * Rejects (and clears the timer) when the signal is aborted
+ */
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a request slot on a host
+ * Returns a function that releases the slot (call it once the request is
+ * done, also on failure). Rejects with the signal's reason if it is aborted
+ * while waiting.
+ */
+export async function acquireHostSlot(
+  host: string,
+  limits: HostLimits,
+  signal?: AbortSignal
+): Promise<() => void> {
+  signal?.throwIfAborted();
+
+  const now = Date.now();
+  if (hosts.size > 1000) {
+    pruneHosts(now);
+  }
+
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, nextStartAt: now, waiting: [] };
+    hosts.set(host, state);
+  }
+
+  while (state.active >= Math.max(1, limits.maxConcurrent)) {
+    await waitInQueue(state, signal);
+  }
+  state.active++;
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    state!.active--;
+    state!.waiting.shift()?.();
+  };
+
+  // Reserve the next start time before waiting for it
+  const startAt = Math.max(Date.now(), state.nextStartAt);
+  state.nextStartAt = startAt + limits.minIntervalMs;
+  if (startAt > Date.now()) {
+    try {
+      await waitFor(startAt - Date.now(), signal);
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  return release;
+}
@@ -0,0 +1,353 @@
+/**
+ * Anthropic Provider
+ * Implementation of LLMProvider using the Anthropic Messages API
+ */
+
+import type {
+  LLMProvider,
+  GeneratedQuery,
+  ContentToAnalyze,
+  RelevancyResult,
+  ResultForReport,
+  CompiledReport,
+  SearchResultToFilter,
+  FilteredSearchResult,
+  LLMUsageCallback,
+} from "../../interfaces/llm-provider";
+import {
+  QUERY_GENERATION_PROMPTS,
+  RELEVANCY_ANALYSIS_PROMPTS,
+  SEARCH_RESULT_FILTERING_PROMPTS,
+  REPORT_COMPILATION_PROMPTS,
+  renderPrompt,
+  type PromptConfig,
+} from "./prompts";
+import { parseJsonResponse } from "./json-response";
+import {
+  withRetry,
+  formatResultsForFiltering,
+  formatContentsForAnalysis,
+  formatResultsForReport,
+  normalizeRelevancyResults,
+} from "./provider-helpers";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_API_VERSION = "2023-06-01";
+const PROVIDER_LABEL = "Anthropic";
+
+/**
+ * Anthropic provider options
+ */
+export interface AnthropicProviderOptions {
+  baseUrl?: string; // API endpoint override (e.g. for a proxy)
+  maxRetries?: number; // Attempts per request (default: 3)
+}
+
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private modelName: string;
+  private baseUrl: string;
+  private maxRetries: number;
+
+  constructor(
+    apiKey: string,
+    modelName: string = "claude-3-5-haiku-latest",
+    options?: AnthropicProviderOptions
+  ) {
+    if (!apiKey) {
+      throw new Error("Anthropic API key is required");
+    }
+    this.apiKey = apiKey;
+    this.modelName = modelName;
+    this.baseUrl = options?.baseUrl || ANTHROPIC_API_URL;
+    this.maxRetries = options?.maxRetries || 3;
+  }
+
+  /**
+   * Send a prompt and return the parsed JSON response
+   * The assistant turn is prefilled with "{" so the model answers with the
+   * JSON object requested by the prompt templates.
+   */
+  private async requestJson<T>(
+    promptConfig: PromptConfig,
+    userPrompt: string,
+    maxTokens: number,
+    onUsage?: LLMUsageCallback
+  ): Promise<T> {
+    const response = await fetch(this.baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.modelName,
+        max_tokens: maxTokens,
+        system: promptConfig.system,
+        messages: [
+          { role: "user", content: userPrompt },
+          { role: "assistant", content: "{" },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error (${response.status}): ${errorText}`);
+    }
+
+    const data: any = await response.json();
+    if (onUsage && data.usage) {
+      onUsage({
+        provider: "anthropic",
+        model: data.model || this.modelName,
+        promptTokens: data.usage.input_tokens || 0,
+        completionTokens: data.usage.output_tokens || 0,
+      });
+    }
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+
+    if (!text) {
+      throw new Error("No content in Anthropic response");
+    }
+    if (data.stop_reason === "max_tokens") {
+      console.warn("Anthropic response hit max_tokens, output may be cut off");
+    }
+
+    return parseJsonResponse<T>(`{${text}`);
+  }
+
+  /**
+   * Generate search queries
+   */
+  async generateSearchQueries(
+    description: string,
+    additionalContext?: string,
+    options?: {
+      count?: number;
+      focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<GeneratedQuery[]> {
+    const userPrompt = renderPrompt(QUERY_GENERATION_PROMPTS.user, {
+      description,
+      additionalContext: additionalContext
+        ? `Additional Context:\n${additionalContext}\n`
+        : "",
+      queryPerformanceContext: "",
+      iterationGuidance: options?.focusRecent
+        ? "\n\nFocus on recent content (latest news and developments)."
+        : "",
+    });
+
+    return withRetry(
+      PROVIDER_LABEL,
+      "generate queries",
+      this.maxRetries,
+      async () => {
+        const parsed = await this.requestJson<any>(
+          QUERY_GENERATION_PROMPTS,
+          userPrompt,
+          1024,
+          options?.onUsage
+        );
+
+        const queries: GeneratedQuery[] = Array.isArray(parsed)
+          ? parsed
+          : parsed.queries;
+        if (!Array.isArray(queries)) {
+          throw new Error("Unexpected response format from Anthropic");
+        }
+
+        return queries
+          .filter((q) => q && typeof q.query === "string")
+          .slice(0, options?.count || 5);
+      }
+    );
+  }
+
+  /**
+   * Filter search results based on title/snippet
+   * Falls back to keeping all results on error
+   */
+  async filterSearchResults(
+    results: SearchResultToFilter[],
+    projectDescription: string,
+    options?: { onUsage?: LLMUsageCallback }
+  ): Promise<FilteredSearchResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    const resultsFormatted = formatResultsForFiltering(results);
+
+    const userPrompt = renderPrompt(SEARCH_RESULT_FILTERING_PROMPTS.user, {
+      description: projectDescription,
+      results: resultsFormatted,
+    });
+
+    try {
+      return await withRetry(
+        PROVIDER_LABEL,
+        "filter search results",
+        this.maxRetries,
+        async () => {
+          const parsed = await this.requestJson<any>(
+            SEARCH_RESULT_FILTERING_PROMPTS,
+            userPrompt,
+            2048,
+            options?.onUsage
+          );
+          if (!Array.isArray(parsed.results)) {
+            throw new Error("Unexpected response format from Anthropic");
+          }
+          return parsed.results as FilteredSearchResult[];
+        }
+      );
+    } catch (error) {
+      console.warn(
+        "Falling back to keeping all results due to filter error:",
+        error
+      );
+      return results.map((r) => ({
+        url: r.url,
+        keep: true,
+        reasoning: "Fallback due to error",
+      }));
+    }
+  }
+
+  /**
+   * Analyze relevancy
+   */
+  async analyzeRelevancy(
+    description: string,
+    contents: ContentToAnalyze[],
+    options?: {
+      threshold?: number;
+      batchSize?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<RelevancyResult[]> {
+    const threshold = options?.threshold || 60;
+    const batchSize = options?.batchSize || 10;
+    const results: RelevancyResult[] = [];
+
+    // Process in batches
+    for (let i = 0; i < contents.length; i += batchSize) {
+      const batch = contents.slice(i, i + batchSize);
+
+      const contentsFormatted = formatContentsForAnalysis(batch);
+
+      const userPrompt = renderPrompt(RELEVANCY_ANALYSIS_PROMPTS.user, {
+        projectDescription: description,
+        requirements: "",
+        threshold,
+        contentsFormatted,
+      });
+
+      const batchResults = await withRetry(
+        PROVIDER_LABEL,
+        "analyze relevancy",
+        this.maxRetries,
+        async () => {
+          const parsed = await this.requestJson<{ results?: unknown }>(
+            RELEVANCY_ANALYSIS_PROMPTS,
+            userPrompt,
+            4096,
+            options?.onUsage
+          );
+          return normalizeRelevancyResults(
+            parsed.results,
+            threshold,
+            PROVIDER_LABEL
+          );
+        }
+      );
+
+      results.push(...batchResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Compile report
+   */
+  async compileReport(
+    description: string,
+    results: ResultForReport[],
+    options?: {
+      tone?: "professional" | "casual" | "technical";
+      maxLength?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<CompiledReport> {
+    const projectTitle = "Research Report";
+
+    if (results.length === 0) {
+      return {
+        markdown: `# ${projectTitle}\n\nNo relevant results found for this research period.`,
+        title: projectTitle,
+        summary: "No relevant results were found.",
+        resultCount: 0,
+        averageScore: 0,
+      };
+    }
+
+    // Sort results by score
+    const sortedResults = [...results].sort((a, b) => b.score - a.score);
+
+    const resultsFormatted = formatResultsForReport(sortedResults);
+
+    const userPrompt = renderPrompt(REPORT_COMPILATION_PROMPTS.user, {
+      projectTitle,
+      projectDescription: description,
+      resultCount: results.length,
+      resultsFormatted,
+    });
+
+    const averageScore =
+      results.reduce((sum, r) => sum + r.score, 0) / results.length;
+
+    return withRetry(
+      PROVIDER_LABEL,
+      "compile report",
+      this.maxRetries,
+      async () => {
+        const parsed = await this.requestJson<any>(
+          REPORT_COMPILATION_PROMPTS,
+          userPrompt,
+          8192,
+          options?.onUsage
+        );
+        if (typeof parsed.markdown !== "string" || !parsed.markdown) {
+          throw new Error("Report response is missing markdown");
+        }
+
+        return {
+          markdown: parsed.markdown,
+          title: parsed.title || projectTitle,
+          summary: parsed.summary || "",
+          resultCount: results.length,
+          averageScore: Math.round(averageScore),
+        };
+      }
+    );
+  }
+}
+
+/**
+ * Factory function to create Anthropic provider
+ */
+export function createAnthropicProvider(
+  apiKey: string,
+  modelName?: string
+): AnthropicProvider {
+  return new AnthropicProvider(apiKey, modelName);
+}
@@ -3,6 +3,7 @@
  */
 
 import OpenAI from "openai";
+import type { LLMUsageCallback } from "../../interfaces/llm-provider";
 
 // OpenAI client instance
 let openaiClient: OpenAI | null = null;
@@ -28,3 +29,24 @@ export function getClient(): OpenAI {
   }
   return openaiClient;
 }
+
+/**
+ * Report the token usage of a chat completion response
+ * (shared by OpenAI-compatible providers)
+ */
+export function reportCompletionUsage(
+  response: OpenAI.Chat.Completions.ChatCompletion,
+  onUsage?: LLMUsageCallback,
+  provider: string = "openai"
+): void {
+  if (!onUsage || !response.usage) {
+    return;
+  }
+
+  onUsage({
+    provider,
+    model: response.model,
+    promptTokens: response.usage.prompt_tokens,
+    completionTokens: response.usage.completion_tokens,
+  });
+}
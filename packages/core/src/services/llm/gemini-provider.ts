@@ -16,6 +16,7 @@ import type {
   RelevancyResult,
   ResultForReport,
   CompiledReport,
+  LLMUsageCallback,
 } from "../../interfaces/llm-provider";
 import {
   QUERY_GENERATION_PROMPTS,
@@ -44,13 +45,34 @@ export class GeminiProvider implements LLMProvider {
     });
   }
 
+  /**
+   * Report the token usage of a generateContent result
+   */
+  private reportUsage(result: any, onUsage?: LLMUsageCallback): void {
+    const usage = result.response?.usageMetadata;
+    if (!onUsage || !usage) {
+      return;
+    }
+
+    onUsage({
+      provider: "gemini",
+      model: this.modelName,
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens: usage.candidatesTokenCount || 0,
+    });
+  }
+
   /**
    * Generate search queries
    */
   async generateSearchQueries(
     description: string,
     additionalContext?: string,
-    options?: { count?: number; focusRecent?: boolean }
+    options?: {
+      count?: number;
+      focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<GeneratedQuery[]> {
     const promptConfig = QUERY_GENERATION_PROMPTS;
     
@@ -72,6 +94,7 @@ export class GeminiProvider implements LLMProvider {
         },
       });
 
+      this.reportUsage(result, options?.onUsage);
       const responseText = result.response.text();
       const parsed = JSON.parse(responseText);
 
@@ -94,7 +117,8 @@ export class GeminiProvider implements LLMProvider {
    */
   async filterSearchResults(
     results: any[],
-    projectDescription: string
+    projectDescription: string,
+    options?: { onUsage?: LLMUsageCallback }
   ): Promise<any[]> {
     const promptConfig = SEARCH_RESULT_FILTERING_PROMPTS;
 
@@ -126,6 +150,7 @@ Snippet: ${r.description}
         },
       });
 
+      this.reportUsage(result, options?.onUsage);
       const responseText = result.response.text();
       const parsed = JSON.parse(responseText);
 
@@ -147,7 +172,11 @@ Snippet: ${r.description}
   async analyzeRelevancy(
     description: string,
     contents: ContentToAnalyze[],
-    options?: { threshold?: number; batchSize?: number }
+    options?: {
+      threshold?: number;
+      batchSize?: number;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<RelevancyResult[]> {
     const promptConfig = RELEVANCY_ANALYSIS_PROMPTS;
     const threshold = options?.threshold || 60;
@@ -183,6 +212,7 @@ Snippet: ${r.description}
           },
         });
 
+        this.reportUsage(result, options?.onUsage);
         const responseText = result.response.text();
         const parsed = JSON.parse(responseText);
         
@@ -205,7 +235,11 @@ Snippet: ${r.description}
   async compileReport(
     description: string,
     results: ResultForReport[],
-    options?: { tone?: "professional" | "casual" | "technical"; maxLength?: number }
+    options?: {
+      tone?: "professional" | "casual" | "technical";
+      maxLength?: number;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<CompiledReport> {
     const promptConfig = REPORT_COMPILATION_PROMPTS;
     
@@ -236,6 +270,7 @@ Snippet: ${r.description}
         },
       });
 
+      this.reportUsage(result, options?.onUsage);
       const responseText = result.response.text();
       const parsed = JSON.parse(responseText);
 
@@ -10,21 +10,27 @@ import type {
   RelevancyResult,
   ResultForReport,
   CompiledReport,
+  SearchResultToFilter,
+  FilteredSearchResult,
+  LLMUsageCallback,
 } from "../../interfaces/llm-provider";
 
 export interface HybridProviderConfig {
   queryProvider: LLMProvider;
+  filterProvider?: LLMProvider; // Pre-fetch filtering (default: analysisProvider)
   analysisProvider: LLMProvider;
   reportProvider: LLMProvider;
 }
 
 export class HybridProvider implements LLMProvider {
   private queryProvider: LLMProvider;
+  private filterProvider: LLMProvider;
   private analysisProvider: LLMProvider;
   private reportProvider: LLMProvider;
 
   constructor(config: HybridProviderConfig) {
     this.queryProvider = config.queryProvider;
+    this.filterProvider = config.filterProvider || config.analysisProvider;
     this.analysisProvider = config.analysisProvider;
     this.reportProvider = config.reportProvider;
   }
@@ -32,7 +38,11 @@ export class HybridProvider implements LLMProvider {
   async generateSearchQueries(
     description: string,
     additionalContext?: string,
-    options?: { count?: number; focusRecent?: boolean }
+    options?: {
+      count?: number;
+      focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<GeneratedQuery[]> {
     return this.queryProvider.generateSearchQueries(
       description,
@@ -41,10 +51,30 @@ export class HybridProvider implements LLMProvider {
     );
   }
 
+  async filterSearchResults(
+    results: SearchResultToFilter[],
+    projectDescription: string,
+    options?: { onUsage?: LLMUsageCallback }
+  ): Promise<FilteredSearchResult[]> {
+    // Keep everything if the filtering provider doesn't support filtering
+    if (!this.filterProvider.filterSearchResults) {
+      return results.map((r) => ({ url: r.url, keep: true }));
+    }
+    return this.filterProvider.filterSearchResults(
+      results,
+      projectDescription,
+      options
+    );
+  }
+
   async analyzeRelevancy(
     description: string,
     contents: ContentToAnalyze[],
-    options?: { threshold?: number; batchSize?: number }
+    options?: {
+      threshold?: number;
+      batchSize?: number;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<RelevancyResult[]> {
     return this.analysisProvider.analyzeRelevancy(
       description,
@@ -56,7 +86,11 @@ export class HybridProvider implements LLMProvider {
   async compileReport(
     description: string,
     results: ResultForReport[],
-    options?: { tone?: "professional" | "casual" | "technical"; maxLength?: number }
+    options?: {
+      tone?: "professional" | "casual" | "technical";
+      maxLength?: number;
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<CompiledReport> {
     return this.reportProvider.compileReport(description, results, options);
   }
@@ -3,9 +3,38 @@
  */
 
 export { OpenAIProvider, createOpenAIProvider } from "./openai-provider";
+export { GeminiProvider } from "./gemini-provider";
+export { HybridProvider, type HybridProviderConfig } from "./hybrid-provider";
+export {
+  LocalProvider,
+  createLocalProvider,
+  type LocalProviderOptions,
+} from "./local-provider";
+export {
+  MockLLMProvider,
+  loadFixtureFile,
+  type MockLLMFixture,
+  type MockRelevancyFixture,
+} from "./mock-provider";
+export {
+  AnthropicProvider,
+  createAnthropicProvider,
+  type AnthropicProviderOptions,
+} from "./anthropic-provider";
 export type { LLMProvider } from "../../interfaces/llm-provider";
 
 export { initializeOpenAI, getClient } from "./client";
+export {
+  parseJsonResponse,
+  repairJson,
+  type ParseJsonOptions,
+} from "./json-response";
+export {
+  MODEL_PRICING,
+  getModelPricing,
+  estimateLLMCost,
+  type ModelPricing,
+} from "./pricing";
 
 export {
   generateSearchQueries,
@@ -0,0 +1,208 @@
+/**
+ * JSON response parsing for LLM output
+ *
+ * Models without a native JSON mode often wrap the requested object in
+ * markdown code fences or add a sentence before/after it. These helpers
+ * recover the JSON payload from such responses. Weaker (e.g. local) models
+ * can also return malformed JSON - trailing commas, or output cut off
+ * mid-array - which the optional repair mode fixes up where possible.
+ */
+
+/**
+ * Options for parseJsonResponse
+ */
+export interface ParseJsonOptions {
+  repair?: boolean; // Repair malformed JSON (trailing commas, truncation) (default: false)
+  arrayKey?: string; // Array property to salvage item by item as a last resort (e.g. "results")
+}
+
+/**
+ * Find the outermost JSON object or array in a piece of text
+ */
+function extractJsonBlock(text: string): string | null {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return null;
+  }
+
+  const open = text[start];
+  const close = open === "{" ? "}" : "]";
+  const end = text.lastIndexOf(close);
+
+  return end > start ? text.substring(start, end + 1) : null;
+}
+
+/**
+ * Repair common JSON defects
+ * Removes trailing commas (outside of strings) and closes an unterminated
+ * string and any unclosed objects/arrays (output cut off by a token limit)
+ */
+export function repairJson(text: string): string {
+  let repaired = "";
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of text.trim()) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      repaired += ch;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      closers.push("}");
+    } else if (ch === "[") {
+      closers.push("]");
+    } else if (ch === "}" || ch === "]") {
+      // Drop a trailing comma before the closing bracket
+      const preceding = repaired.trimEnd();
+      if (preceding.endsWith(",")) {
+        repaired = preceding.slice(0, -1);
+      }
+      closers.pop();
+    }
+    repaired += ch;
+  }
+
+  if (inString) {
+    repaired += '"';
+  }
+
+  // Drop a dangling separator before closing
+  repaired = repaired.replace(/[,:\s]+$/, "");
+
+  return repaired + closers.reverse().join("");
+}
+
+/**
+ * Salvage the complete objects of an array property, skipping broken ones
+ * Returns null if the property is not present
+ */
+function salvageArrayItems(text: string, arrayKey: string): any[] | null {
+  const match = new RegExp(`"${arrayKey}"\\s*:\\s*\\[`).exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const items: any[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      if (depth === 0) {
+        itemStart = i;
+      }
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0 && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(repairJson(text.substring(itemStart, i + 1))));
+        } catch {
+          // Skip malformed item
+        }
+        itemStart = -1;
+      }
+    } else if (ch === "]" && depth === 0) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Parse a JSON object/array from an LLM response
+ * Throws if no valid JSON can be recovered
+ */
+export function parseJsonResponse<T = any>(
+  text: string,
+  options?: ParseJsonOptions
+): T {
+  const trimmed = text.trim();
+
+  // Plain JSON
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to recovery
+  }
+
+  // ```json ... ``` fenced block
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1].trim());
+    } catch {
+      // Fall through to block extraction
+    }
+  }
+
+  // JSON surrounded by prose
+  const block = extractJsonBlock(trimmed);
+  if (block) {
+    try {
+      return JSON.parse(block);
+    } catch (error) {
+      if (!options?.repair) {
+        throw error;
+      }
+    }
+  }
+
+  if (options?.repair) {
+    // Repair from the first bracket (the closing one may be missing)
+    const start = trimmed.search(/[{[]/);
+    const candidate = fenced
+      ? fenced[1]
+      : start !== -1
+        ? trimmed.substring(start)
+        : "";
+
+    if (candidate) {
+      try {
+        return JSON.parse(repairJson(candidate));
+      } catch {
+        // Fall through to salvaging array items
+      }
+    }
+
+    if (options.arrayKey) {
+      const items = salvageArrayItems(trimmed, options.arrayKey);
+      if (items && items.length > 0) {
+        return { [options.arrayKey]: items } as T;
+      }
+    }
+  }
+
+  throw new Error(
+    `Response did not contain valid JSON: ${trimmed.substring(0, 200)}`
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * Local Provider
+ * Implementation of LLMProvider for self-hosted models behind an
+ * OpenAI-compatible HTTP endpoint (llama.cpp server, vLLM, Ollama, ...)
+ */
+
+import OpenAI from "openai";
+import type {
+  LLMProvider,
+  GeneratedQuery,
+  ContentToAnalyze,
+  RelevancyResult,
+  ResultForReport,
+  CompiledReport,
+  SearchResultToFilter,
+  FilteredSearchResult,
+  LLMUsageCallback,
+} from "../../interfaces/llm-provider";
+import type { LLMTask } from "../../models/project";
+import {
+  QUERY_GENERATION_PROMPTS,
+  RELEVANCY_ANALYSIS_PROMPTS,
+  SEARCH_RESULT_FILTERING_PROMPTS,
+  REPORT_COMPILATION_PROMPTS,
+  renderPrompt,
+  type PromptConfig,
+} from "./prompts";
+import { parseJsonResponse } from "./json-response";
+import {
+  withRetry,
+  formatResultsForFiltering,
+  formatContentsForAnalysis,
+  formatResultsForReport,
+  normalizeRelevancyResults,
+} from "./provider-helpers";
+import { reportCompletionUsage } from "./client";
+
+const PROVIDER_LABEL = "Local LLM";
+
+/**
+ * Local provider options
+ */
+export interface LocalProviderOptions {
+  baseUrl?: string; // OpenAI-compatible endpoint (default: LOCAL_LLM_BASE_URL or http://localhost:8080/v1)
+  apiKey?: string; // Only if the server requires one
+  model?: string; // Default model for all tasks (default: LOCAL_LLM_MODEL)
+  models?: Partial<Record<LLMTask, string>>; // Per-task model overrides
+  jsonMode?: boolean; // Send response_format json_object (default: false, not all servers support it)
+  timeoutMs?: number; // Request timeout (default: 120000)
+  maxRetries?: number; // Attempts per request (default: 3)
+}
+
+export class LocalProvider implements LLMProvider {
+  private client: OpenAI;
+  private model: string;
+  private models: Partial<Record<LLMTask, string>>;
+  private jsonMode: boolean;
+  private maxRetries: number;
+
+  constructor(options: LocalProviderOptions = {}) {
+    const model = options.model || process.env.LOCAL_LLM_MODEL;
+    if (!model) {
+      throw new Error(
+        "Local LLM model is required (set model or LOCAL_LLM_MODEL)"
+      );
+    }
+
+    this.client = new OpenAI({
+      baseURL:
+        options.baseUrl ||
+        process.env.LOCAL_LLM_BASE_URL ||
+        "http://localhost:8080/v1",
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || "not-needed",
+      timeout: options.timeoutMs || 120000,
+      maxRetries: 0,
+    });
+    this.model = model;
+    this.models = options.models || {};
+    this.jsonMode = options.jsonMode || false;
+    this.maxRetries = options.maxRetries || 3;
+  }
+
+  /**
+   * Send a prompt and return the parsed (and if needed, repaired) JSON
+   */
+  private async requestJson<T>(
+    task: LLMTask,
+    promptConfig: PromptConfig,
+    userPrompt: string,
+    onUsage?: LLMUsageCallback
+  ): Promise<T> {
+    const response = await this.client.chat.completions.create({
+      model: this.models[task] || this.model,
+      messages: [
+        { role: "system", content: promptConfig.system },
+        { role: "user", content: userPrompt },
+      ],
+      ...(this.jsonMode ? { response_format: { type: "json_object" } } : {}),
+    });
+    reportCompletionUsage(response, onUsage, "local");
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("No content in local LLM response");
+    }
+
+    return parseJsonResponse<T>(content, { repair: true, arrayKey: "results" });
+  }
+
+  /**
+   * Generate search queries
+   */
+  async generateSearchQueries(
+    description: string,
+    additionalContext?: string,
+    options?: {
+      count?: number;
+      focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<GeneratedQuery[]> {
+    const userPrompt = renderPrompt(QUERY_GENERATION_PROMPTS.user, {
+      description,
+      additionalContext: additionalContext
+        ? `Additional Context:\n${additionalContext}\n`
+        : "",
+      queryPerformanceContext: "",
+      iterationGuidance: options?.focusRecent
+        ? "\n\nFocus on recent content (latest news and developments)."
+        : "",
+    });
+
+    return withRetry(
+      PROVIDER_LABEL,
+      "generate queries",
+      this.maxRetries,
+      async () => {
+        const parsed = await this.requestJson<any>(
+          "query",
+          QUERY_GENERATION_PROMPTS,
+          userPrompt,
+          options?.onUsage
+        );
+
+        const queries: GeneratedQuery[] = Array.isArray(parsed)
+          ? parsed
+          : parsed.queries;
+        if (!Array.isArray(queries)) {
+          throw new Error("Unexpected response format from local LLM");
+        }
+
+        return queries
+          .filter((q) => q && typeof q.query === "string")
+          .slice(0, options?.count || 5);
+      }
+    );
+  }
+
+  /**
+   * Filter search results based on title/snippet
+   * Falls back to keeping all results on error
+   */
+  async filterSearchResults(
+    results: SearchResultToFilter[],
+    projectDescription: string,
+    options?: { onUsage?: LLMUsageCallback }
+  ): Promise<FilteredSearchResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    const resultsFormatted = formatResultsForFiltering(results);
+
+    const userPrompt = renderPrompt(SEARCH_RESULT_FILTERING_PROMPTS.user, {
+      description: projectDescription,
+      results: resultsFormatted,
+    });
+
+    try {
+      return await withRetry(
+        PROVIDER_LABEL,
+        "filter search results",
+        this.maxRetries,
+        async () => {
+          const parsed = await this.requestJson<any>(
+            "filter",
+            SEARCH_RESULT_FILTERING_PROMPTS,
+            userPrompt,
+            options?.onUsage
+          );
+          if (!Array.isArray(parsed.results)) {
+            throw new Error("Unexpected response format from local LLM");
+          }
+          return parsed.results as FilteredSearchResult[];
+        }
+      );
+    } catch (error) {
+      console.warn(
+        "Falling back to keeping all results due to filter error:",
+        error
+      );
+      return results.map((r) => ({
+        url: r.url,
+        keep: true,
+        reasoning: "Fallback due to error",
+      }));
+    }
+  }
+
+  /**
+   * Analyze relevancy
+   */
+  async analyzeRelevancy(
+    description: string,
+    contents: ContentToAnalyze[],
+    options?: {
+      threshold?: number;
+      batchSize?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<RelevancyResult[]> {
+    const threshold = options?.threshold || 60;
+    // Smaller default batches: local models have short context windows
+    const batchSize = options?.batchSize || 5;
+    const results: RelevancyResult[] = [];
+
+    // Process in batches
+    for (let i = 0; i < contents.length; i += batchSize) {
+      const batch = contents.slice(i, i + batchSize);
+
+      const contentsFormatted = formatContentsForAnalysis(batch);
+
+      const userPrompt = renderPrompt(RELEVANCY_ANALYSIS_PROMPTS.user, {
+        projectDescription: description,
+        requirements: "",
+        threshold,
+        contentsFormatted,
+      });
+
+      const batchResults = await withRetry(
+        PROVIDER_LABEL,
+        "analyze relevancy",
+        this.maxRetries,
+        async () => {
+          const parsed = await this.requestJson<{ results?: unknown }>(
+            "analysis",
+            RELEVANCY_ANALYSIS_PROMPTS,
+            userPrompt,
+            options?.onUsage
+          );
+          return normalizeRelevancyResults(
+            parsed.results,
+            threshold,
+            PROVIDER_LABEL
+          );
+        }
+      );
+
+      results.push(...batchResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Compile report
+   */
+  async compileReport(
+    description: string,
+    results: ResultForReport[],
+    options?: {
+      tone?: "professional" | "casual" | "technical";
+      maxLength?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<CompiledReport> {
+    const projectTitle = "Research Report";
+
+    if (results.length === 0) {
+      return {
+        markdown: `# ${projectTitle}\n\nNo relevant results found for this research period.`,
+        title: projectTitle,
+        summary: "No relevant results were found.",
+        resultCount: 0,
+        averageScore: 0,
+      };
+    }
+
+    // Sort results by score
+    const sortedResults = [...results].sort((a, b) => b.score - a.score);
+
+    const resultsFormatted = formatResultsForReport(sortedResults);
+
+    const userPrompt = renderPrompt(REPORT_COMPILATION_PROMPTS.user, {
+      projectTitle,
+      projectDescription: description,
+      resultCount: results.length,
+      resultsFormatted,
+    });
+
+    const averageScore =
+      results.reduce((sum, r) => sum + r.score, 0) / results.length;
+
+    return withRetry(
+      PROVIDER_LABEL,
+      "compile report",
+      this.maxRetries,
+      async () => {
+        const parsed = await this.requestJson<any>(
+          "report",
+          REPORT_COMPILATION_PROMPTS,
+          userPrompt,
+          options?.onUsage
+        );
+        if (typeof parsed.markdown !== "string" || !parsed.markdown) {
+          throw new Error("Report response is missing markdown");
+        }
+
+        return {
+          markdown: parsed.markdown,
+          title: parsed.title || projectTitle,
+          summary: parsed.summary || "",
+          resultCount: results.length,
+          averageScore: Math.round(averageScore),
+        };
+      }
+    );
+  }
+}
+
+/**
+ * Factory function to create local provider
+ */
+export function createLocalProvider(
+  options?: LocalProviderOptions
+): LocalProvider {
+  return new LocalProvider(options);
+}
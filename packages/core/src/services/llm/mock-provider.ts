@@ -0,0 +1,229 @@
+/**
+ * Mock LLM Provider
+ * Deterministic implementation of LLMProvider driven by fixture files,
+ * for offline end-to-end tests (no API calls)
+ */
+
+import * as fs from "fs";
+import type {
+  LLMProvider,
+  GeneratedQuery,
+  ContentToAnalyze,
+  RelevancyResult,
+  ResultForReport,
+  CompiledReport,
+  SearchResultToFilter,
+  FilteredSearchResult,
+  LLMUsageCallback,
+} from "../../interfaces/llm-provider";
+
+/**
+ * Scripted relevancy for a URL
+ */
+export interface MockRelevancyFixture {
+  score: number; // 0-100
+  reasoning?: string;
+  keyPoints?: string[];
+}
+
+/**
+ * Mock LLM fixture file format
+ */
+export interface MockLLMFixture {
+  queries: GeneratedQuery[][]; // One batch per generateSearchQueries call; the last batch repeats
+  filterExclude?: string[]; // URL substrings dropped by pre-fetch filtering (default: keep all)
+  scores: Record<string, MockRelevancyFixture>; // Keyed by URL substring (e.g. a path)
+  defaultScore?: number; // Score for URLs without an entry (default: 0)
+  report: {
+    title: string;
+    summary: string;
+    markdown?: string; // Default: generated from the title, summary and results
+  };
+  usagePerCall?: { promptTokens: number; completionTokens: number }; // Usage reported for every call (default: none)
+}
+
+/**
+ * Load a fixture file, replacing {{variable}} placeholders
+ * (e.g. {{baseUrl}} for a local fixture server)
+ */
+export function loadFixtureFile<T>(
+  filePath: string,
+  variables: Record<string, string> = {}
+): T {
+  let text = fs.readFileSync(filePath, "utf-8");
+  for (const [key, value] of Object.entries(variables)) {
+    text = text.split(`{{${key}}}`).join(value);
+  }
+  return JSON.parse(text) as T;
+}
+
+export class MockLLMProvider implements LLMProvider {
+  private fixture: MockLLMFixture;
+  private queryCalls = 0;
+
+  // Number of calls per method (for test assertions)
+  readonly calls = {
+    generateSearchQueries: 0,
+    filterSearchResults: 0,
+    analyzeRelevancy: 0,
+    compileReport: 0,
+  };
+
+  constructor(fixture: MockLLMFixture) {
+    if (!fixture.queries || fixture.queries.length === 0) {
+      throw new Error("Mock LLM fixture must define at least one query batch");
+    }
+    this.fixture = fixture;
+  }
+
+  /**
+   * Create a provider from a fixture file
+   */
+  static fromFile(
+    filePath: string,
+    variables?: Record<string, string>
+  ): MockLLMProvider {
+    return new MockLLMProvider(loadFixtureFile(filePath, variables));
+  }
+
+  /**
+   * Find the scripted relevancy for a URL
+   */
+  private findScore(url: string): MockRelevancyFixture | undefined {
+    const key = Object.keys(this.fixture.scores).find((k) => url.includes(k));
+    return key ? this.fixture.scores[key] : undefined;
+  }
+
+  /**
+   * Report the scripted usage of a call
+   */
+  private reportUsage(onUsage?: LLMUsageCallback): void {
+    if (onUsage && this.fixture.usagePerCall) {
+      onUsage({
+        provider: "mock",
+        model: "mock",
+        ...this.fixture.usagePerCall,
+      });
+    }
+  }
+
+  /**
+   * Generate search queries (next scripted batch)
+   */
+  async generateSearchQueries(
+    projectDescription: string,
+    additionalContext?: string,
+    options?: {
+      count?: number;
+      focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<GeneratedQuery[]> {
+    this.calls.generateSearchQueries++;
+    this.reportUsage(options?.onUsage);
+
+    const batches = this.fixture.queries;
+    const batch = batches[Math.min(this.queryCalls, batches.length - 1)];
+    this.queryCalls++;
+
+    return batch.slice(0, options?.count || batch.length);
+  }
+
+  /**
+   * Filter search results (drops URLs matching filterExclude)
+   */
+  async filterSearchResults(
+    results: SearchResultToFilter[],
+    projectDescription: string,
+    options?: { onUsage?: LLMUsageCallback }
+  ): Promise<FilteredSearchResult[]> {
+    this.calls.filterSearchResults++;
+    this.reportUsage(options?.onUsage);
+
+    const exclude = this.fixture.filterExclude || [];
+    return results.map((r) => {
+      const excluded = exclude.some((pattern) => r.url.includes(pattern));
+      return {
+        url: r.url,
+        keep: !excluded,
+        reasoning: excluded ? "Excluded by fixture" : "Kept by fixture",
+      };
+    });
+  }
+
+  /**
+   * Analyze relevancy (scripted scores)
+   */
+  async analyzeRelevancy(
+    projectDescription: string,
+    contents: ContentToAnalyze[],
+    options?: {
+      threshold?: number;
+      batchSize?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<RelevancyResult[]> {
+    this.calls.analyzeRelevancy++;
+    this.reportUsage(options?.onUsage);
+
+    const threshold = options?.threshold || 60;
+    return contents.map((c) => {
+      const scripted = this.findScore(c.url);
+      const score = scripted ? scripted.score : this.fixture.defaultScore || 0;
+
+      return {
+        url: c.url,
+        score,
+        reasoning: scripted?.reasoning || "Scored by fixture",
+        keyPoints: scripted?.keyPoints || [],
+        isRelevant: score >= threshold,
+      };
+    });
+  }
+
+  /**
+   * Compile report (scripted title/summary)
+   */
+  async compileReport(
+    projectDescription: string,
+    results: ResultForReport[],
+    options?: {
+      tone?: "professional" | "casual" | "technical";
+      maxLength?: number;
+      onUsage?: LLMUsageCallback;
+    }
+  ): Promise<CompiledReport> {
+    this.calls.compileReport++;
+    this.reportUsage(options?.onUsage);
+
+    const { title, summary } = this.fixture.report;
+    const sortedResults = [...results].sort((a, b) => b.score - a.score);
+
+    const markdown =
+      this.fixture.report.markdown ||
+      [
+        `# ${title}`,
+        "",
+        summary,
+        "",
+        ...sortedResults.map(
+          (r) => `- [${r.title || r.url}](${r.url}) (score: ${r.score})`
+        ),
+      ].join("\n");
+
+    const averageScore =
+      results.length > 0
+        ? Math.round(
+            results.reduce((sum, r) => sum + r.score, 0) / results.length
+          )
+        : 0;
+
+    return {
+      markdown,
+      title,
+      summary,
+      resultCount: results.length,
+      averageScore,
+    };
+  }
+}
@@ -4,6 +4,7 @@
  * Adapter that wraps the existing OpenAI service to implement LLMProvider interface
  */
 
+import OpenAI from "openai";
 import type {
   LLMProvider,
   GeneratedQuery,
@@ -13,6 +14,7 @@ import type {
   CompiledReport,
   SearchResultToFilter,
   FilteredSearchResult,
+  LLMUsageCallback,
 } from "../../interfaces/llm-provider";
 import {
   generateSearchQueries as openaiGenerateQueries,
@@ -27,34 +29,39 @@ import {
   compileReportWithRetry as openaiCompileReportRetry,
 } from "./report-compilation";
 import { filterSearchResultsSafe } from "./search-filtering"; 
-import { initializeOpenAI as initOpenAI, getClient } from "./client";
+import { getClient } from "./client";
 
 /**
  * OpenAI implementation of LLMProvider
+ * A provider created with an API key uses its own client, so providers with
+ * different keys don't replace each other's client; without one it uses the
+ * client from initializeOpenAI().
  */
 export class OpenAIProvider implements LLMProvider {
-  private initialized: boolean = false;
+  private client?: OpenAI;
+  private model?: string; // Overrides the per-prompt models in prompts.ts
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, model?: string) {
+    this.model = model;
     if (apiKey) {
-      initOpenAI(apiKey);
-      this.initialized = true;
+      this.client = new OpenAI({ apiKey });
     }
   }
 
   /**
-   * Ensure the provider is initialized
+   * Get the client to use, ensuring the provider is initialized
    */
-  private ensureInitialized(): void {
-    if (!this.initialized) {
-      try {
-        getClient(); // This will throw if not initialized
-        this.initialized = true;
-      } catch (error) {
-        throw new Error(
-          "OpenAI provider not initialized. Call initializeOpenAI() first or provide API key in constructor."
-        );
-      }
+  private getOpenAIClient(): OpenAI {
+    if (this.client) {
+      return this.client;
+    }
+
+    try {
+      return getClient(); // This will throw if not initialized
+    } catch (error) {
+      throw new Error(
+        "OpenAI provider not initialized. Call initializeOpenAI() first or provide API key in constructor."
+      );
     }
   }
 
@@ -67,9 +74,10 @@ export class OpenAIProvider implements LLMProvider {
     options?: {
       count?: number;
       focusRecent?: boolean;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<GeneratedQuery[]> {
-    this.ensureInitialized();
+    const client = this.getOpenAIClient();
 
     // The existing OpenAI function takes different parameters
     // We'll call it with retry logic
@@ -78,10 +86,13 @@ export class OpenAIProvider implements LLMProvider {
       undefined, // searchParams
       undefined, // previousQueries
       1, // iteration
-      3 // maxRetries
+      3, // maxRetries
+      options?.onUsage,
+      this.model,
+      client
     );
 
-    return queries;
+    return queries.slice(0, options?.count || 5);
   }
 
   /**
@@ -89,10 +100,19 @@ export class OpenAIProvider implements LLMProvider {
    */
   async filterSearchResults(
     results: SearchResultToFilter[],
-    projectDescription: string
+    projectDescription: string,
+    options?: {
+      onUsage?: LLMUsageCallback;
+    }
   ): Promise<FilteredSearchResult[]> {
-    this.ensureInitialized();
-    return filterSearchResultsSafe(results, projectDescription);
+    const client = this.getOpenAIClient();
+    return filterSearchResultsSafe(
+      results,
+      projectDescription,
+      options?.onUsage,
+      this.model,
+      client
+    );
   }
 
   /**
@@ -104,9 +124,10 @@ export class OpenAIProvider implements LLMProvider {
     options?: {
       threshold?: number;
       batchSize?: number;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<RelevancyResult[]> {
-    this.ensureInitialized();
+    const client = this.getOpenAIClient();
 
     const threshold = options?.threshold || 60;
 
@@ -116,7 +137,10 @@ export class OpenAIProvider implements LLMProvider {
       projectDescription,
       undefined, // searchParams
       threshold,
-      3 // maxRetries
+      3, // maxRetries
+      options?.onUsage,
+      this.model,
+      client
     );
 
     return results;
@@ -131,9 +155,10 @@ export class OpenAIProvider implements LLMProvider {
     options?: {
       tone?: "professional" | "casual" | "technical";
       maxLength?: number;
+      onUsage?: LLMUsageCallback;
     }
   ): Promise<CompiledReport> {
-    this.ensureInitialized();
+    const client = this.getOpenAIClient();
 
     // Use the existing OpenAI function with retry logic
     const report = await openaiCompileReportRetry(
@@ -141,7 +166,10 @@ export class OpenAIProvider implements LLMProvider {
       "Research Report", // projectTitle - use a default since interface doesn't require it
       projectDescription,
       undefined, // searchParams
-      3 // maxRetries
+      3, // maxRetries
+      options?.onUsage,
+      this.model,
+      client
     );
 
     return report;
@@ -151,6 +179,9 @@ export class OpenAIProvider implements LLMProvider {
 /**
  * Factory function to create OpenAI provider
  */
-export function createOpenAIProvider(apiKey: string): OpenAIProvider {
-  return new OpenAIProvider(apiKey);
+export function createOpenAIProvider(
+  apiKey: string,
+  model?: string
+): OpenAIProvider {
+  return new OpenAIProvider(apiKey, model);
 }
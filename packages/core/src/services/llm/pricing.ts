@@ -0,0 +1,65 @@
+/**
+ * LLM pricing
+ *
+ * List prices used to estimate the cost of research runs. Prices are in USD
+ * per million tokens and matched by model name prefix, so dated model
+ * versions (e.g. "gpt-4o-mini-2024-07-18") use their base model's price.
+ * Models without an entry (local models, mocks) are counted as free.
+ */
+
+import type { LLMUsage } from "../../interfaces/llm-provider";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+
+  // Google
+  "gemini-1.5-flash-8b": { inputPerMillion: 0.0375, outputPerMillion: 0.15 },
+  "gemini-1.5-flash": { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  "gemini-1.5-pro": { inputPerMillion: 1.25, outputPerMillion: 5 },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+
+  // Anthropic
+  "claude-3-5-haiku": { inputPerMillion: 0.8, outputPerMillion: 4 },
+  "claude-3-5-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-7-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+};
+
+/**
+ * Find the pricing for a model (longest matching prefix)
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const key = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? MODEL_PRICING[key] : undefined;
+}
+
+/**
+ * Estimate the cost of an LLM call in USD
+ */
+export function estimateLLMCost(usage: LLMUsage): number {
+  const pricing = getModelPricing(usage.model);
+  if (!pricing) {
+    return 0;
+  }
+
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Shared helpers for LLMProvider implementations that call a model over HTTP
+ * and parse JSON out of its response (Anthropic, local models)
+ */
+
+import type {
+  ContentToAnalyze,
+  RelevancyResult,
+  ResultForReport,
+  SearchResultToFilter,
+} from "../../interfaces/llm-provider";
+
+/**
+ * Run a request with retry logic (exponential backoff)
+ */
+export async function withRetry<T>(
+  providerLabel: string,
+  task: string,
+  maxRetries: number,
+  request: () => Promise<T>
+): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      lastError = error as Error;
+      console.warn(
+        `${providerLabel} ${task} attempt ${attempt}/${maxRetries} failed:`,
+        error
+      );
+
+      if (attempt < maxRetries) {
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  throw new Error(
+    `Failed to ${task} after ${maxRetries} attempts: ${lastError?.message}`
+  );
+}
+
+/**
+ * Format search results for the filtering prompt
+ */
+export function formatResultsForFiltering(
+  results: SearchResultToFilter[]
+): string {
+  return results
+    .map(
+      (r, idx) => `
+Result ${idx + 1}:
+URL: ${r.url}
+Title: ${r.title}
+Snippet: ${r.description}
+---`
+    )
+    .join("\n");
+}
+
+/**
+ * Format contents for the relevancy analysis prompt
+ */
+export function formatContentsForAnalysis(
+  contents: ContentToAnalyze[]
+): string {
+  return contents
+    .map(
+      (c, idx) => `
+Content ${idx + 1}:
+URL: ${c.url}
+Title: ${c.title || "N/A"}
+Published: ${c.publishedDate || "Unknown"}
+Snippet:
+${c.snippet}
+---`
+    )
+    .join("\n");
+}
+
+/**
+ * Format results (already sorted) for the report compilation prompt
+ */
+export function formatResultsForReport(results: ResultForReport[]): string {
+  return results
+    .map(
+      (r, idx) => `
+Result ${idx + 1}:
+URL: ${r.url}
+Title: ${r.title || "N/A"}
+Score: ${r.score}/100
+Published: ${r.publishedDate || "Unknown"}
+Author: ${r.author || "Unknown"}
+Key Points: ${r.keyPoints.join("; ")}
+${r.imageUrl ? `Image: ${r.imageUrl} (Alt: ${r.imageAlt || "N/A"})` : ""}
+Snippet:
+${r.snippet}
+---`
+    )
+    .join("\n");
+}
+
+/**
+ * Validate and normalize the parsed "results" of a relevancy response
+ * Throws when they aren't an array (so the request is retried), clamps
+ * scores to 0-100, derives relevance from the threshold and skips entries
+ * without a URL
+ */
+export function normalizeRelevancyResults(
+  parsed: unknown,
+  threshold: number,
+  providerLabel: string
+): RelevancyResult[] {
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Unexpected response format from ${providerLabel}`);
+  }
+
+  const results: RelevancyResult[] = [];
+
+  for (const r of parsed) {
+    if (!r || typeof r !== "object" || typeof r.url !== "string") continue;
+    const score = Math.max(0, Math.min(100, Number(r.score) || 0));
+    results.push({
+      url: r.url,
+      score,
+      reasoning: typeof r.reasoning === "string" ? r.reasoning : "",
+      keyPoints: Array.isArray(r.keyPoints)
+        ? r.keyPoints.filter((p: unknown) => typeof p === "string")
+        : [],
+      isRelevant: score >= threshold,
+    });
+  }
+
+  return results;
+}
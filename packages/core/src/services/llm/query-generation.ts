@@ -2,11 +2,13 @@
  * Search query generation using OpenAI
  */
 
-import { getClient } from "./client";
+import type OpenAI from "openai";
+import { getClient, reportCompletionUsage } from "./client";
 import { QUERY_GENERATION_PROMPTS, renderPrompt } from "./prompts";
 import type { SearchParameters } from "../../models/project";
 import type { QueryPerformance } from "../../models/search-history";
 import type { GeneratedQuery } from "./types";
+import type { LLMUsageCallback } from "../../interfaces/llm-provider";
 
 /**
  * Generate optimized search queries from project description
@@ -15,10 +17,11 @@ export async function generateSearchQueries(
   description: string,
   searchParams?: SearchParameters,
   previousQueries?: QueryPerformance[],
-  iteration: number = 1
+  iteration: number = 1,
+  onUsage?: LLMUsageCallback,
+  model?: string, // Default: QUERY_GENERATION_PROMPTS.model
+  client: OpenAI = getClient() // Default: the client from initializeOpenAI
 ): Promise<GeneratedQuery[]> {
-  const client = getClient();
-
   // Build context about what to consider
   const contextParts: string[] = [];
 
@@ -89,7 +92,7 @@ export async function generateSearchQueries(
 
   try {
     const response = await client.chat.completions.create({
-      model: QUERY_GENERATION_PROMPTS.model,
+      model: model || QUERY_GENERATION_PROMPTS.model,
       messages: [
         { role: "system", content: QUERY_GENERATION_PROMPTS.system },
         { role: "user", content: userPrompt },
@@ -98,6 +101,7 @@ export async function generateSearchQueries(
         type: QUERY_GENERATION_PROMPTS.responseFormat || "json_object",
       },
     });
+    reportCompletionUsage(response, onUsage);
 
     const content = response.choices[0].message.content;
     if (!content) {
@@ -135,7 +139,10 @@ export async function generateSearchQueriesWithRetry(
   searchParams?: SearchParameters,
   previousQueries?: QueryPerformance[],
   iteration: number = 1,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  onUsage?: LLMUsageCallback,
+  model?: string,
+  client?: OpenAI
 ): Promise<GeneratedQuery[]> {
   let lastError: Error | null = null;
 
@@ -145,7 +152,10 @@ export async function generateSearchQueriesWithRetry(
         description,
         searchParams,
         previousQueries,
-        iteration
+        iteration,
+        onUsage,
+        model,
+        client
       );
     } catch (error) {
       lastError = error as Error;
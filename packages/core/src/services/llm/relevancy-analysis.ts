@@ -2,10 +2,12 @@
  * Content relevancy analysis using OpenAI
  */
 
-import { getClient } from "./client";
+import type OpenAI from "openai";
+import { getClient, reportCompletionUsage } from "./client";
 import { RELEVANCY_ANALYSIS_PROMPTS, renderPrompt } from "./prompts";
 import type { SearchParameters } from "../../models/project";
 import type { ContentToAnalyze, RelevancyResult } from "./types";
+import type { LLMUsageCallback } from "../../interfaces/llm-provider";
 
 /**
  * Analyze relevancy of extracted content
@@ -14,10 +16,11 @@ export async function analyzeRelevancy(
   contents: ContentToAnalyze[],
   projectDescription: string,
   searchParams?: SearchParameters,
-  threshold: number = 60
+  threshold: number = 60,
+  onUsage?: LLMUsageCallback,
+  model?: string, // Default: RELEVANCY_ANALYSIS_PROMPTS.model
+  client: OpenAI = getClient() // Default: the client from initializeOpenAI
 ): Promise<RelevancyResult[]> {
-  const client = getClient();
-
   // Build context
   const contextParts: string[] = [];
 
@@ -62,7 +65,7 @@ ${c.snippet}
 
   try {
     const response = await client.chat.completions.create({
-      model: RELEVANCY_ANALYSIS_PROMPTS.model,
+      model: model || RELEVANCY_ANALYSIS_PROMPTS.model,
       messages: [
         { role: "system", content: RELEVANCY_ANALYSIS_PROMPTS.system },
         { role: "user", content: userPrompt },
@@ -71,6 +74,7 @@ ${c.snippet}
         type: RELEVANCY_ANALYSIS_PROMPTS.responseFormat || "json_object",
       },
     });
+    reportCompletionUsage(response, onUsage);
 
     const content = response.choices[0].message.content;
     if (!content) {
@@ -93,7 +97,10 @@ export async function analyzeRelevancyWithRetry(
   projectDescription: string,
   searchParams?: SearchParameters,
   threshold: number = 60,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  onUsage?: LLMUsageCallback,
+  model?: string,
+  client?: OpenAI
 ): Promise<RelevancyResult[]> {
   let lastError: Error | null = null;
 
@@ -103,7 +110,10 @@ export async function analyzeRelevancyWithRetry(
         contents,
         projectDescription,
         searchParams,
-        threshold
+        threshold,
+        onUsage,
+        model,
+        client
       );
     } catch (error) {
       lastError = error as Error;
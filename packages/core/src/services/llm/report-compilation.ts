@@ -2,10 +2,12 @@
  * Report compilation using OpenAI
  */
 
-import { getClient } from "./client";
+import type OpenAI from "openai";
+import { getClient, reportCompletionUsage } from "./client";
 import { REPORT_COMPILATION_PROMPTS, renderPrompt } from "./prompts";
 import type { SearchParameters } from "../../models/project";
 import type { ResultForReport, CompiledReport } from "./types";
+import type { LLMUsageCallback } from "../../interfaces/llm-provider";
 
 /**
  * Compile relevant results into a markdown report
@@ -14,10 +16,11 @@ export async function compileReport(
   results: ResultForReport[],
   projectTitle: string,
   projectDescription: string,
-  searchParams?: SearchParameters
+  searchParams?: SearchParameters,
+  onUsage?: LLMUsageCallback,
+  model?: string, // Default: REPORT_COMPILATION_PROMPTS.model
+  client: OpenAI = getClient() // Default: the client from initializeOpenAI
 ): Promise<CompiledReport> {
-  const client = getClient();
-
   if (results.length === 0) {
     return {
       markdown: `# ${projectTitle}\n\nNo relevant results found for this research period.`,
@@ -58,7 +61,7 @@ ${r.snippet}
 
   try {
     const response = await client.chat.completions.create({
-      model: REPORT_COMPILATION_PROMPTS.model,
+      model: model || REPORT_COMPILATION_PROMPTS.model,
       messages: [
         { role: "system", content: REPORT_COMPILATION_PROMPTS.system },
         { role: "user", content: userPrompt },
@@ -67,6 +70,7 @@ ${r.snippet}
         type: REPORT_COMPILATION_PROMPTS.responseFormat || "json_object",
       },
     });
+    reportCompletionUsage(response, onUsage);
 
     const content = response.choices[0].message.content;
     if (!content) {
@@ -99,7 +103,10 @@ export async function compileReportWithRetry(
   projectTitle: string,
   projectDescription: string,
   searchParams?: SearchParameters,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  onUsage?: LLMUsageCallback,
+  model?: string,
+  client?: OpenAI
 ): Promise<CompiledReport> {
   let lastError: Error | null = null;
 
@@ -109,7 +116,10 @@ export async function compileReportWithRetry(
         results,
         projectTitle,
         projectDescription,
-        searchParams
+        searchParams,
+        onUsage,
+        model,
+        client
       );
     } catch (error) {
       lastError = error as Error;
@@ -2,19 +2,22 @@
  * Search result filtering using OpenAI
  */
 
-import { getClient } from "./client";
+import type OpenAI from "openai";
+import { getClient, reportCompletionUsage } from "./client";
 import { SEARCH_RESULT_FILTERING_PROMPTS, renderPrompt } from "./prompts";
 import type { SearchResultToFilter, FilteredSearchResult } from "./types";
+import type { LLMUsageCallback } from "../../interfaces/llm-provider";
 
 /**
  * Filter search results using LLM to determine if they are worth fetching
  */
 export async function filterSearchResults(
   results: SearchResultToFilter[],
-  projectDescription: string
+  projectDescription: string,
+  onUsage?: LLMUsageCallback,
+  model?: string, // Default: SEARCH_RESULT_FILTERING_PROMPTS.model
+  client: OpenAI = getClient() // Default: the client from initializeOpenAI
 ): Promise<FilteredSearchResult[]> {
-  const client = getClient();
-
   if (results.length === 0) {
     return [];
   }
@@ -39,7 +42,7 @@ Snippet: ${r.description}
 
   try {
     const response = await client.chat.completions.create({
-      model: SEARCH_RESULT_FILTERING_PROMPTS.model,
+      model: model || SEARCH_RESULT_FILTERING_PROMPTS.model,
       messages: [
         { role: "system", content: SEARCH_RESULT_FILTERING_PROMPTS.system },
         { role: "user", content: userPrompt },
@@ -48,6 +51,7 @@ Snippet: ${r.description}
         type: SEARCH_RESULT_FILTERING_PROMPTS.responseFormat || "json_object",
       },
     });
+    reportCompletionUsage(response, onUsage);
 
     const content = response.choices[0].message.content;
     if (!content) {
@@ -72,10 +76,19 @@ Snippet: ${r.description}
  */
 export async function filterSearchResultsSafe(
   results: SearchResultToFilter[],
-  projectDescription: string
+  projectDescription: string,
+  onUsage?: LLMUsageCallback,
+  model?: string,
+  client?: OpenAI
 ): Promise<FilteredSearchResult[]> {
   try {
-    return await filterSearchResults(results, projectDescription);
+    return await filterSearchResults(
+      results,
+      projectDescription,
+      onUsage,
+      model,
+      client
+    );
   } catch (error) {
     console.warn("Falling back to keeping all results due to filter error:", error);
     return results.map(r => ({
@@ -0,0 +1,353 @@
+/**
+ * Main content extraction
+ *
+ * Finds the main content of a page by scoring, in the style of Readability:
+ * - Boilerplate (navigation, cookie banners, comments, related articles)
+ *   is removed by tag and by class/id patterns
+ * - Paragraphs are scored by length and commas; scores flow up to their
+ *   parent and grandparent, which become the content candidates
+ * - Candidates are weighted by tag and class/id and penalized by link
+ *   density; the best one is kept together with related siblings
+ * - The result is cleaned of link-heavy blocks and returned as text with
+ *   paragraph boundaries ("\n\n") preserved
+ */
+
+import * as cheerio from "cheerio";
+
+// Elements that never hold main content
+const REMOVED_ELEMENTS =
+  "script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, aside, footer, dialog";
+
+// Class/id patterns of boilerplate and of content
+const UNLIKELY_CANDIDATES =
+  /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|feedback|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_CLASS =
+  /-ad-|hidden|^hid$|\shid$|\shid\s|^hid\s|banner|combx|comment|com-|consent|contact|cookie|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+// Elements whose text is scored as a paragraph
+const PARAGRAPH_TAGS = new Set(["p", "pre", "td", "blockquote"]);
+
+// Block elements (a div without any is treated as a paragraph, and each
+// one starts a new paragraph in the output)
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+// Stands in for line breaks inside <pre> while whitespace is normalized
+const PRE_LINE_BREAK = "\u0000";
+
+// Paragraphs shorter than this are not scored
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Content shorter than this falls back to the whole page
+const MIN_CONTENT_LENGTH = 100;
+
+/**
+ * Normalize whitespace within a piece of text
+ */
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Class and id of an element, for pattern matching
+ */
+function getClassAndId(el: any): string {
+  return `${el.attribs?.class || ""} ${el.attribs?.id || ""}`;
+}
+
+/**
+ * Share of an element's text that is link text (0-1)
+ */
+function getLinkDensity($: cheerio.CheerioAPI, el: any): number {
+  const textLength = cleanText($(el).text()).length;
+  if (textLength === 0) {
+    return 0;
+  }
+
+  let linkLength = 0;
+  $(el)
+    .find("a")
+    .each((_, link) => {
+      linkLength += cleanText($(link).text()).length;
+    });
+
+  return linkLength / textLength;
+}
+
+/**
+ * Weight of an element's class and id (+25 content, -25 boilerplate)
+ */
+function getClassWeight(el: any): number {
+  let weight = 0;
+
+  for (const name of [el.attribs?.class, el.attribs?.id]) {
+    if (!name) continue;
+    if (NEGATIVE_CLASS.test(name)) weight -= 25;
+    if (POSITIVE_CLASS.test(name)) weight += 25;
+  }
+
+  return weight;
+}
+
+/**
+ * Initial score of a candidate by tag
+ */
+function getTagScore(tagName: string): number {
+  switch (tagName) {
+    case "div":
+    case "article":
+    case "section":
+    case "main":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Remove elements that cannot be main content
+ */
+function removeBoilerplate($: cheerio.CheerioAPI): void {
+  $(REMOVED_ELEMENTS).remove();
+  $('[role="dialog"], [role="alertdialog"], [aria-modal="true"]').remove();
+  $('[hidden], [aria-hidden="true"]').remove();
+
+  $("body *").each((_, el: any) => {
+    if (["body", "article", "main", "a"].includes(el.tagName)) {
+      return;
+    }
+    const classAndId = getClassAndId(el);
+    if (
+      UNLIKELY_CANDIDATES.test(classAndId) &&
+      !MAYBE_CANDIDATE.test(classAndId)
+    ) {
+      $(el).remove();
+    }
+  });
+}
+
+/**
+ * Score paragraphs and propagate the scores to their ancestors
+ * Returns the candidate elements with their scores
+ */
+function scoreCandidates($: cheerio.CheerioAPI): Map<any, number> {
+  const scores = new Map<any, number>();
+
+  const initialize = (el: any) => {
+    if (!scores.has(el)) {
+      scores.set(el, getTagScore(el.tagName) + getClassWeight(el));
+    }
+  };
+
+  $("body *").each((_, el: any) => {
+    const isParagraph =
+      PARAGRAPH_TAGS.has(el.tagName) ||
+      (el.tagName === "div" &&
+        !$(el)
+          .children()
+          .toArray()
+          .some((child: any) => BLOCK_TAGS.has(child.tagName)));
+    if (!isParagraph) {
+      return;
+    }
+
+    const text = cleanText($(el).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    // One point per paragraph, per comma and per 100 characters (up to 3)
+    const commas = text.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    // Parent gets the full score, grandparent half, further ancestors less
+    $(el)
+      .parents()
+      .slice(0, 3)
+      .each((level, ancestor: any) => {
+        if (ancestor.tagName === "html") return;
+        initialize(ancestor);
+        const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+        scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      });
+  });
+
+  // Scale by how much of the candidate is not links
+  for (const [el, score] of scores) {
+    scores.set(el, score * (1 - getLinkDensity($, el)));
+  }
+
+  return scores;
+}
+
+/**
+ * Remove link-heavy or short blocks from the selected content (lists of
+ * related links, share bars, bylines left over after scoring)
+ */
+function cleanContent($: cheerio.CheerioAPI, content: any): void {
+  $(content)
+    .find("ul, ol, div, section, table, td")
+    .each((_, el: any) => {
+      if (!$(el).parent().length) {
+        return; // Already removed with an ancestor
+      }
+
+      const text = cleanText($(el).text());
+      const linkDensity = getLinkDensity($, el);
+      const weight = getClassWeight(el);
+      const paragraphs = $(el).find("p").length;
+
+      if (
+        weight < 0 ||
+        (linkDensity > 0.5 && text.length < 1000) ||
+        (linkDensity > 0.2 &&
+          weight < 25 &&
+          paragraphs === 0 &&
+          text.length < 200)
+      ) {
+        $(el).remove();
+      }
+    });
+}
+
+/**
+ * Convert an element to text with one paragraph per block element
+ */
+function toParagraphText($: cheerio.CheerioAPI, elements: any[]): string {
+  const root = $("<div></div>");
+  for (const el of elements) {
+    root.append($(el).clone());
+  }
+
+  root.find("pre").each((_, el) => {
+    $(el).text($(el).text().replace(/\n/g, PRE_LINE_BREAK));
+  });
+  root.find("br").replaceWith("\n\n");
+  root.find("*").each((_, el: any) => {
+    if (BLOCK_TAGS.has(el.tagName)) {
+      $(el).before("\n\n").after("\n\n");
+    }
+  });
+
+  return root
+    .text()
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      cleanText(paragraph).replace(new RegExp(PRE_LINE_BREAK, "g"), "\n")
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Extract the main content of an HTML page as text
+ * Paragraphs are separated by a blank line ("\n\n")
+ */
+export function extractMainContent(html: string): string {
+  const $ = cheerio.load(html);
+  removeBoilerplate($);
+
+  const scores = scoreCandidates($);
+  let topCandidate: any = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    if (score > topScore) {
+      topCandidate = el;
+      topScore = score;
+    }
+  }
+
+  if (!topCandidate) {
+    return toParagraphText($, $("body").toArray());
+  }
+
+  // Siblings that score well or look like content belong to the article
+  // (e.g. a lead paragraph outside the main container)
+  const siblingThreshold = Math.max(10, topScore * 0.2);
+  const topClass = topCandidate.attribs?.class;
+  const contentElements = $(topCandidate)
+    .parent()
+    .children()
+    .toArray()
+    .filter((sibling: any) => {
+      if (sibling === topCandidate) return true;
+
+      let bonus = 0;
+      if (topClass && sibling.attribs?.class === topClass) {
+        bonus = topScore * 0.2;
+      }
+      if ((scores.get(sibling) ?? -Infinity) + bonus >= siblingThreshold) {
+        return true;
+      }
+
+      if (sibling.tagName === "p") {
+        const text = cleanText($(sibling).text());
+        const linkDensity = getLinkDensity($, sibling);
+        return (
+          (text.length > 80 && linkDensity < 0.25) ||
+          (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text))
+        );
+      }
+      return false;
+    });
+
+  for (const el of contentElements) {
+    cleanContent($, el);
+  }
+
+  const content = toParagraphText($, contentElements);
+  if (content.length < MIN_CONTENT_LENGTH) {
+    return toParagraphText($, $("body").toArray());
+  }
+  return content;
+}
@@ -0,0 +1,171 @@
+/**
+ * Spending budgets for research runs
+ *
+ * Each user has a monthly budget (users/{userId}.monthlyBudgetUsd, falling
+ * back to a default passed by the caller) and each project can add its own
+ * cap (project.monthlyBudgetUsd). Spending is recorded per month in
+ * users/{userId}/spending/{month}.
+ */
+
+import { db } from "../firebase";
+import type { Project } from "../../models/project";
+import type { BudgetScope, MonthlySpending } from "../../models/spending";
+
+/**
+ * Budget limits and month-to-date spending at the start of a run
+ */
+export interface BudgetStatus {
+  month: string; // "YYYY-MM" (UTC)
+  userLimitUsd?: number; // Undefined = no user budget
+  userSpentUsd: number;
+  projectLimitUsd?: number; // Undefined = no project cap
+  projectSpentUsd: number;
+}
+
+/**
+ * A budget that a run has used up
+ */
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  limitUsd: number;
+  spentUsd: number; // Including the current run
+}
+
+/**
+ * Get the spending month for a timestamp ("YYYY-MM", UTC)
+ */
+export function getSpendingMonth(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+function getSpendingRef(userId: string, month: string) {
+  return db.collection("users").doc(userId).collection("spending").doc(month);
+}
+
+/**
+ * Load the budget limits and month-to-date spending for a project
+ */
+export async function getBudgetStatus(
+  userId: string,
+  project: Project,
+  defaultUserBudgetUsd?: number
+): Promise<BudgetStatus> {
+  const month = getSpendingMonth();
+
+  const [userDoc, spendingDoc] = await Promise.all([
+    db.collection("users").doc(userId).get(),
+    getSpendingRef(userId, month).get(),
+  ]);
+
+  const userBudgetUsd = userDoc.exists
+    ? userDoc.data()?.monthlyBudgetUsd
+    : undefined;
+  const spending = spendingDoc.exists
+    ? (spendingDoc.data() as MonthlySpending)
+    : undefined;
+
+  return {
+    month,
+    userLimitUsd:
+      typeof userBudgetUsd === "number" ? userBudgetUsd : defaultUserBudgetUsd,
+    userSpentUsd: spending?.totalCostUsd || 0,
+    projectLimitUsd: project.monthlyBudgetUsd,
+    projectSpentUsd: spending?.projectCostUsd?.[project.id] || 0,
+  };
+}
+
+/**
+ * Get the budget left after spending runCostUsd in the current run
+ * (Infinity if neither the user nor the project has a budget)
+ */
+export function getRemainingBudgetUsd(
+  status: BudgetStatus,
+  runCostUsd: number = 0
+): number {
+  let remaining = Infinity;
+
+  if (status.userLimitUsd !== undefined) {
+    remaining = Math.min(
+      remaining,
+      status.userLimitUsd - status.userSpentUsd - runCostUsd
+    );
+  }
+  if (status.projectLimitUsd !== undefined) {
+    remaining = Math.min(
+      remaining,
+      status.projectLimitUsd - status.projectSpentUsd - runCostUsd
+    );
+  }
+
+  return remaining;
+}
+
+/**
+ * Find the budget used up after spending runCostUsd (project cap first)
+ */
+export function getExceededBudget(
+  status: BudgetStatus,
+  runCostUsd: number = 0
+): BudgetExceeded | null {
+  const projectSpentUsd = status.projectSpentUsd + runCostUsd;
+  if (
+    status.projectLimitUsd !== undefined &&
+    projectSpentUsd >= status.projectLimitUsd
+  ) {
+    return {
+      scope: "project",
+      limitUsd: status.projectLimitUsd,
+      spentUsd: projectSpentUsd,
+    };
+  }
+
+  const userSpentUsd = status.userSpentUsd + runCostUsd;
+  if (
+    status.userLimitUsd !== undefined &&
+    userSpentUsd >= status.userLimitUsd
+  ) {
+    return {
+      scope: "user",
+      limitUsd: status.userLimitUsd,
+      spentUsd: userSpentUsd,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Add the cost of a run to the month's spending
+ */
+export async function recordSpending(
+  userId: string,
+  projectId: string,
+  costUsd: number,
+  month: string = getSpendingMonth()
+): Promise<void> {
+  const spendingRef = getSpendingRef(userId, month);
+
+  await db.runTransaction(async (transaction: any) => {
+    const spendingDoc = await transaction.get(spendingRef);
+    const spending: MonthlySpending = spendingDoc.exists
+      ? (spendingDoc.data() as MonthlySpending)
+      : {
+          month,
+          totalCostUsd: 0,
+          projectCostUsd: {},
+          runCount: 0,
+          updatedAt: 0,
+        };
+
+    transaction.set(spendingRef, {
+      month,
+      totalCostUsd: spending.totalCostUsd + costUsd,
+      projectCostUsd: {
+        ...spending.projectCostUsd,
+        [projectId]: (spending.projectCostUsd?.[projectId] || 0) + costUsd,
+      },
+      runCount: spending.runCount + 1,
+      updatedAt: Date.now(),
+    });
+  });
+}
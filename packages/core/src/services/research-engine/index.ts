@@ -18,5 +18,25 @@ export {
   setDefaultProviders,
 } from "./orchestrator";
 export { getSearchHistory, updateSearchHistory } from "./search-history";
-export { saveSearchResults, saveDeliveryLog } from "./result-storage";
+export {
+  saveSearchResults,
+  saveDeliveryLog,
+  updateDeliveryLogStatus,
+} from "./result-storage";
+export {
+  SEARCH_REQUEST_PRICING,
+  createRunUsage,
+  recordLLMUsage,
+  recordSearchRequests,
+  type RunUsage,
+} from "./usage-tracking";
+export {
+  getBudgetStatus,
+  getRemainingBudgetUsd,
+  getExceededBudget,
+  getSpendingMonth,
+  recordSpending,
+  type BudgetStatus,
+  type BudgetExceeded,
+} from "./budget";
 export type { ResearchOptions, ResearchResult } from "./types";
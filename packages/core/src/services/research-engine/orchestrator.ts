@@ -21,12 +21,36 @@ import type {
   SearchProvider,
   SearchFilters,
 } from "../../interfaces/search-provider";
-import { extractMultipleContents } from "../content-extractor";
+import {
+  extractMultipleContents,
+  type ExtractedContent,
+} from "../content-extractor";
+import { getContentCacheStats } from "../content-cache";
 import { calculateNextRunAt, validateFrequency } from "../../utils/scheduling";
 import { getSearchHistory, updateSearchHistory } from "./search-history";
 import { saveSearchResults, saveDeliveryLog } from "./result-storage";
-import { sendReportEmail } from "../email";
+import { deliverReport } from "../delivery";
+import { sendBudgetExceededEmail } from "../email";
 import type { ResearchOptions, ResearchResult } from "./types";
+import {
+  createRunUsage,
+  trackLLMUsage,
+  recordSearchRequests,
+} from "./usage-tracking";
+import {
+  getBudgetStatus,
+  getRemainingBudgetUsd,
+  getExceededBudget,
+  getSpendingMonth,
+  recordSpending,
+  type BudgetExceeded,
+} from "./budget";
+
+// Queries generated per iteration (fewer when the budget runs low)
+const QUERIES_PER_ITERATION = 5;
+
+// Sources skipped per robots.txt that are listed in the report
+const MAX_LISTED_DISALLOWED_SOURCES = 10;
 
 // Default providers (can be overridden via options)
 let defaultLLMProvider: LLMProvider | null = null;
@@ -88,6 +112,56 @@ function calculateDateRange(frequency: "daily" | "weekly" | "monthly"): {
   };
 }
 
+/**
+ * List the sources skipped because of robots.txt at the end of the report,
+ * so readers know they were not reviewed
+ */
+function appendDisallowedSources(
+  markdown: string,
+  sources: Array<{ url: string; title?: string }>
+): string {
+  if (sources.length === 0) {
+    return markdown;
+  }
+
+  const lines = sources
+    .slice(0, MAX_LISTED_DISALLOWED_SOURCES)
+    .map((s) => `- [${(s.title || s.url).replace(/[[\]]/g, "")}](${s.url})`);
+  if (sources.length > MAX_LISTED_DISALLOWED_SOURCES) {
+    lines.push(
+      `- ...and ${sources.length - MAX_LISTED_DISALLOWED_SOURCES} more`
+    );
+  }
+
+  return [
+    markdown.trimEnd(),
+    "## Sources not reviewed",
+    "These search results were skipped because the sites' robots.txt does not allow automated access:",
+    lines.join("\n"),
+  ].join("\n\n");
+}
+
+/**
+ * Record the cost of a run (failures are logged, not thrown, so a run's
+ * results are never lost over spending bookkeeping)
+ */
+async function recordRunSpending(
+  userId: string,
+  projectId: string,
+  costUsd: number,
+  month: string
+): Promise<void> {
+  if (costUsd <= 0) {
+    return;
+  }
+
+  try {
+    await recordSpending(userId, projectId, costUsd, month);
+  } catch (error) {
+    console.error("Failed to record run spending:", error);
+  }
+}
+
 /**
  * Execute research with full context (main implementation)
  */
@@ -104,6 +178,10 @@ export async function executeResearchForProject(
   const llmProvider = options?.llmProvider || defaults.llm;
   const searchProvider = options?.searchProvider || defaults.search;
 
+  // Token usage and search requests of this run
+  const usage = createRunUsage();
+  let spendingRecorded = false;
+
   try {
     // 1. Load project
     const projectRef = db
@@ -143,6 +221,14 @@ export async function executeResearchForProject(
       options?.relevancyThreshold || project.settings.relevancyThreshold;
     const concurrentExtractions = options?.concurrentExtractions || 3;
 
+    // 3.5 Load spending budget (checked before every iteration)
+    const budget = await getBudgetStatus(
+      userId,
+      project,
+      options?.defaultUserBudgetUsd
+    );
+    let budgetExceeded: BudgetExceeded | null = null;
+
     // 4. Load search history
     const history = await getSearchHistory(userId, projectId);
     const processedUrlsSet = new Set(
@@ -168,6 +254,8 @@ export async function executeResearchForProject(
     let allRelevantResults: SearchResult[] = [];
     let totalUrlsFetched = 0;
     let totalUrlsSuccessful = 0;
+    const disallowedSources: Array<{ url: string; title?: string }> = [];
+    const allExtractedContents: ExtractedContent[] = [];
     let allQueriesGenerated: string[] = [];
     let allQueriesExecuted: string[] = [];
     const queryPerformanceMap = new Map<
@@ -177,8 +265,44 @@ export async function executeResearchForProject(
 
     // 7. Iteration loop (max 3 times)
     let iteration = 1;
+    let iterationStartCostUsd = 0;
 
     while (iteration <= maxIterations) {
+      options?.signal?.throwIfAborted();
+
+      // 7.0 Check the budget: stop once it is used up, and shrink the
+      // iteration if the previous one cost more than what is left
+      const remainingBudgetUsd = getRemainingBudgetUsd(
+        budget,
+        usage.estimatedCostUsd
+      );
+      if (remainingBudgetUsd <= 0) {
+        budgetExceeded = getExceededBudget(budget, usage.estimatedCostUsd);
+        console.warn(
+          `Spending budget used up, stopping before iteration ${iteration}`
+        );
+        break;
+      }
+
+      const lastIterationCostUsd =
+        iteration > 1 ? usage.estimatedCostUsd - iterationStartCostUsd : 0;
+      const queryCount =
+        lastIterationCostUsd > remainingBudgetUsd
+          ? Math.max(
+              1,
+              Math.floor(
+                (QUERIES_PER_ITERATION * remainingBudgetUsd) /
+                  lastIterationCostUsd
+              )
+            )
+          : QUERIES_PER_ITERATION;
+      if (queryCount < QUERIES_PER_ITERATION) {
+        console.warn(
+          `Spending budget running low ($${remainingBudgetUsd.toFixed(4)} left), reducing to ${queryCount} queries`
+        );
+      }
+      iterationStartCostUsd = usage.estimatedCostUsd;
+
       console.log(`\n=== Research Iteration ${iteration}/${maxIterations} ===`);
 
       // 7.1 Generate search queries
@@ -199,14 +323,16 @@ export async function executeResearchForProject(
         project.description,
         additionalContext,
         {
-          count: 5, // Reduced from 7 to save tokens
+          count: queryCount,
           focusRecent:
             project.searchParameters?.dateRangePreference === "last_24h" ||
             project.searchParameters?.dateRangePreference === "last_week",
+          onUsage: trackLLMUsage(usage, "query"),
         }
       );
 
-      const queries = generatedQueries.map((q) => q.query);
+      // Not every provider honors count, so enforce the (budget) limit here
+      const queries = generatedQueries.slice(0, queryCount).map((q) => q.query);
       allQueriesGenerated.push(...queries);
       console.log(`Generated ${queries.length} queries`);
 
@@ -216,6 +342,12 @@ export async function executeResearchForProject(
         queries,
         searchFilters
       );
+      // Paginating providers make more than one request per query
+      const searchRequestCount = Array.from(searchResponses.values()).reduce(
+        (sum, response) => sum + (response.metadata?.requests ?? 1),
+        0
+      );
+      recordSearchRequests(usage, searchProvider.getName(), searchRequestCount);
       allQueriesExecuted.push(...searchResponses.keys());
 
       // 7.3 Deduplicate results
@@ -296,7 +428,8 @@ export async function executeResearchForProject(
         try {
           const filtered = await llmProvider.filterSearchResults(
             resultsForFilter, 
-            project.description
+            project.description,
+            { onUsage: trackLLMUsage(usage, "filter") }
           );
           
           const urlsToKeep = new Set(
@@ -311,19 +444,43 @@ export async function executeResearchForProject(
       }
 
       // 7.4 Extract content
+      options?.signal?.throwIfAborted();
       console.log(`Extracting content from ${resultsToFetch.length} URLs...`);
       const extractedContents = await extractMultipleContents(
         resultsToFetch.map((r) => r.url),
-        undefined,
+        { signal: options?.signal },
         5 // Increased concurrency from 3 to 5
       );
+      options?.signal?.throwIfAborted();
 
       totalUrlsFetched += extractedContents.length;
+      allExtractedContents.push(...extractedContents);
       const successfulContents = extractedContents.filter(
         (c) => c.fetchStatus === "success" && c.snippet.length > 0
       );
       totalUrlsSuccessful += successfulContents.length;
 
+      // Pages robots.txt keeps us from are listed in the report
+      for (const content of extractedContents) {
+        if (content.fetchStatus === "disallowed") {
+          disallowedSources.push({
+            url: content.url,
+            title: resultsToFetch.find((r) => r.url === content.url)?.title,
+          });
+        }
+      }
+
+      // Pages without a publish date of their own fall back to the date
+      // reported by the search provider (e.g. Bing's datePublished)
+      const searchPublishedDates = new Map(
+        resultsToFetch.map((r) => [r.url, r.publishedDate])
+      );
+      for (const content of successfulContents) {
+        content.metadata.publishedDate ||= searchPublishedDates.get(
+          content.url
+        );
+      }
+
       console.log(
         `Successfully extracted ${successfulContents.length}/${extractedContents.length} URLs`
       );
@@ -400,6 +557,7 @@ export async function executeResearchForProject(
         {
           threshold: relevancyThreshold,
           batchSize: 10,
+          onUsage: trackLLMUsage(usage, "analysis"),
         }
       );
 
@@ -448,6 +606,13 @@ export async function executeResearchForProject(
             imageAlt: extractedContent.images[0]?.alt,
             contentType: extractedContent.metadata.contentType,
             wordCount: extractedContent.wordCount,
+            modifiedDate: extractedContent.metadata.modifiedDate,
+            section: extractedContent.metadata.section,
+            canonicalUrl: extractedContent.metadata.canonicalUrl,
+            siteName: extractedContent.metadata.siteName,
+            language: extractedContent.metadata.language,
+            brand: extractedContent.metadata.brand,
+            price: extractedContent.metadata.price,
           },
           fetchedAt: extractedContent.fetchedAt,
           analyzedAt: Date.now(),
@@ -498,6 +663,7 @@ export async function executeResearchForProject(
     // 9. Compile report (if we have results)
     let report: CompiledReport | undefined;
     if (sortedResults.length > 0) {
+      options?.signal?.throwIfAborted();
       console.log("Compiling report...");
       const resultsForReport: ResultForReport[] = sortedResults.map((r) => ({
         url: r.url,
@@ -517,11 +683,15 @@ export async function executeResearchForProject(
         {
           tone: "professional",
           maxLength: 5000,
+          onUsage: trackLLMUsage(usage, "report"),
         }
       );
 
       report = {
-        markdown: compiledReport.markdown,
+        markdown: appendDisallowedSources(
+          compiledReport.markdown,
+          disallowedSources
+        ),
         title: compiledReport.title,
         summary: compiledReport.summary,
         averageScore: compiledReport.averageScore,
@@ -529,7 +699,18 @@ export async function executeResearchForProject(
       };
     }
 
+    // 9.5 Record spending and check whether this run used up the budget
+    await recordRunSpending(
+      userId,
+      projectId,
+      usage.estimatedCostUsd,
+      budget.month
+    );
+    spendingRecorded = true;
+    budgetExceeded ??= getExceededBudget(budget, usage.estimatedCostUsd);
+
     // 10. Save results to Firestore
+    options?.signal?.throwIfAborted();
     console.log("Saving results...");
     let searchResultIds: string[] = [];
     if (sortedResults.length > 0) {
@@ -552,6 +733,9 @@ export async function executeResearchForProject(
         iterationsRequired: iteration,
         urlsFetched: totalUrlsFetched,
         urlsSuccessful: totalUrlsSuccessful,
+        disallowedUrls: disallowedSources.map((s) => s.url),
+        contentCache: getContentCacheStats(allExtractedContents),
+        ...usage,
       };
 
       deliveryLogId = await saveDeliveryLog(
@@ -562,32 +746,23 @@ export async function executeResearchForProject(
         stats,
         searchResultIds,
         startedAt,
-        Date.now()
+        Date.now(),
+        options?.skipDelivery ? "pending" : "success",
+        userEmail
       );
 
-      // 10.6 Send email if configured
-      const deliveryEmail = project.deliveryConfig?.email?.address || userEmail;
-
-      if (
-        project.resultsDestination === "email" &&
-        deliveryEmail
-      ) {
-        console.log(`Sending report email to ${deliveryEmail}...`);
-        try {
-          const emailResult = await sendReportEmail(
-            deliveryEmail,
-            report,
-            projectId
-          );
-          
-          if (emailResult.success) {
-            console.log("Email sent successfully:", emailResult.id);
-          } else {
-            console.error("Failed to send email:", emailResult.error);
-          }
-        } catch (emailError) {
-          console.error("Exception sending email:", emailError);
-        }
+      // 10.6 Deliver report through the project's delivery channel
+      // (skipped for prepared reports, which the scheduler delivers at
+      // the project's delivery time)
+      if (!options?.skipDelivery) {
+        await deliverReport({
+          userId,
+          projectId,
+          deliveryLogId,
+          project,
+          report,
+          fallbackEmail: userEmail,
+        });
       }
     }
 
@@ -608,21 +783,46 @@ export async function executeResearchForProject(
       queryPerformanceMap
     );
 
-    // 12. Calculate next run time
-    const nextRunAt = calculateNextRunAt(
-      project.frequency,
-      project.deliveryTime,
-      project.timezone,
-      startedAt
-    );
+    // 12-13. Update project execution tracking
+    // Prepared reports keep the current schedule; it is advanced once the
+    // report has been delivered. A project that used up its budget is
+    // paused until the budget allows more runs.
+    const budgetUpdates = budgetExceeded
+      ? { status: "budget_exceeded", budgetExceededAt: Date.now() }
+      : { status: "active" };
 
-    // 13. Update project execution tracking
-    await projectRef.update({
-      lastRunAt: startedAt,
-      nextRunAt,
-      status: "active",
-      updatedAt: Date.now(),
-    });
+    if (options?.skipDelivery) {
+      await projectRef.update({
+        ...budgetUpdates,
+        updatedAt: Date.now(),
+      });
+    } else {
+      const nextRunAt = calculateNextRunAt(
+        project.frequency,
+        project.deliveryTime,
+        project.timezone,
+        startedAt
+      );
+
+      await projectRef.update({
+        lastRunAt: startedAt,
+        nextRunAt,
+        ...budgetUpdates,
+        updatedAt: Date.now(),
+      });
+    }
+
+    // 14. Let the user know their project was paused for budget
+    const notifyEmail = project.deliveryConfig?.email?.address || userEmail;
+    if (budgetExceeded && notifyEmail) {
+      console.warn(
+        `Project ${projectId} paused: ${budgetExceeded.scope} budget of $${budgetExceeded.limitUsd} used up`
+      );
+      await sendBudgetExceededEmail(notifyEmail, {
+        projectTitle: project.title,
+        ...budgetExceeded,
+      });
+    }
 
     const completedAt = Date.now();
 
@@ -637,7 +837,11 @@ export async function executeResearchForProject(
       urlsFetched: totalUrlsFetched,
       urlsSuccessful: totalUrlsSuccessful,
       urlsRelevant: allRelevantResults.length,
+      disallowedUrls: disallowedSources.map((s) => s.url),
+      contentCache: getContentCacheStats(allExtractedContents),
       report,
+      usage,
+      budgetExceeded: budgetExceeded || undefined,
       deliveryLogId,
       startedAt,
       completedAt,
@@ -646,21 +850,34 @@ export async function executeResearchForProject(
   } catch (error: any) {
     console.error("Research execution error:", error);
 
-    // Update project with error
-    try {
-      const projectRef = db
-        .collection("users")
-        .doc(userId)
-        .collection("projects")
-        .doc(projectId);
-      await projectRef.update({
-        lastRunAt: startedAt,
-        status: "error",
-        lastError: error.message,
-        updatedAt: Date.now(),
-      });
-    } catch (updateError) {
-      console.error("Failed to update project with error:", updateError);
+    // Tokens and search requests used before the failure still count
+    if (!spendingRecorded) {
+      await recordRunSpending(
+        userId,
+        projectId,
+        usage.estimatedCostUsd,
+        getSpendingMonth(startedAt)
+      );
+    }
+
+    // Update project with error (a cancelled run is handled by the caller
+    // that cancelled it)
+    if (!options?.signal?.aborted) {
+      try {
+        const projectRef = db
+          .collection("users")
+          .doc(userId)
+          .collection("projects")
+          .doc(projectId);
+        await projectRef.update({
+          lastRunAt: startedAt,
+          status: "error",
+          lastError: error.message,
+          updatedAt: Date.now(),
+        });
+      } catch (updateError) {
+        console.error("Failed to update project with error:", updateError);
+      }
     }
 
     return {
@@ -674,6 +891,7 @@ export async function executeResearchForProject(
       urlsFetched: 0,
       urlsSuccessful: 0,
       urlsRelevant: 0,
+      usage,
       error: error.message,
       startedAt,
       completedAt: Date.now(),
@@ -6,7 +6,12 @@
 import { db } from "../firebase";
 import type { Project } from "../../models/project";
 import type { SearchResult, NewSearchResult } from "../../models/search-result";
-import type { NewDeliveryLog, DeliveryStats } from "../../models/delivery-log";
+import type {
+  NewDeliveryLog,
+  DeliveryStats,
+  DeliveryDestination,
+} from "../../models/delivery-log";
+import { getDeliveryChannel } from "../delivery/registry";
 
 /**
  * Save search results to Firestore
@@ -68,7 +73,8 @@ export async function saveDeliveryLog(
   searchResultIds: string[],
   researchStartedAt: number,
   researchCompletedAt: number,
-  status: "pending" | "success" | "failed" | "partial" = "success"
+  status: "pending" | "success" | "failed" | "partial" = "success",
+  fallbackEmail?: string
 ): Promise<string> {
   const deliveryLogsCollection = db
     .collection("users")
@@ -77,30 +83,15 @@ export async function saveDeliveryLog(
     .doc(projectId)
     .collection("deliveryLogs");
 
-  // Determine destination and address based on project configuration
-  let destination: "email" | "slack" | "sms" = "email"; // Default
+  // Determine destination and address from the project's delivery channel
+  let destination: DeliveryDestination = "email"; // Default
   let destinationAddress = "pending";
 
-  if (project.resultsDestination !== "none" && project.deliveryConfig) {
-    if (
-      project.resultsDestination === "email" &&
-      project.deliveryConfig.email
-    ) {
-      destination = "email";
-      destinationAddress = project.deliveryConfig.email.address;
-    } else if (
-      project.resultsDestination === "slack" &&
-      project.deliveryConfig.slack
-    ) {
-      destination = "slack";
-      destinationAddress = project.deliveryConfig.slack.webhookUrl;
-    } else if (
-      project.resultsDestination === "sms" &&
-      project.deliveryConfig.sms
-    ) {
-      destination = "sms";
-      destinationAddress = project.deliveryConfig.sms.phoneNumber;
-    }
+  if (project.resultsDestination !== "none") {
+    destination = project.resultsDestination;
+    destinationAddress =
+      getDeliveryChannel(destination)?.resolveAddress(project, fallbackEmail) ||
+      "pending";
   }
 
   const deliveryLogData: NewDeliveryLog = {
@@ -111,6 +102,7 @@ export async function saveDeliveryLog(
     destinationAddress,
     reportMarkdown: report.markdown,
     reportTitle: report.title,
+    reportSummary: report.summary,
     stats,
     status, // Can be "pending" for pre-runs, "success" for immediate delivery
     retryCount: 0,
@@ -124,3 +116,41 @@ export async function saveDeliveryLog(
   const docRef = await deliveryLogsCollection.add(deliveryLogData);
   return docRef.id;
 }
+
+/**
+ * Record the outcome of a delivery attempt on a delivery log
+ */
+export async function updateDeliveryLogStatus(
+  userId: string,
+  projectId: string,
+  deliveryLogId: string,
+  update: {
+    status: "retrying" | "success" | "failed";
+    error?: string;
+    retryCount?: number; // Total retry attempts so far
+    nextRetryAt?: number; // When the next retry is due (retrying status only)
+    deliveredParts?: number; // Parts delivered so far (multi-part channels)
+  }
+): Promise<void> {
+  const deliveryLogRef = db
+    .collection("users")
+    .doc(userId)
+    .collection("projects")
+    .doc(projectId)
+    .collection("deliveryLogs")
+    .doc(deliveryLogId);
+
+  await deliveryLogRef.update({
+    status: update.status,
+    error: update.error ?? null,
+    ...(update.retryCount !== undefined
+      ? { retryCount: update.retryCount }
+      : {}),
+    nextRetryAt: update.nextRetryAt ?? null,
+    ...(update.deliveredParts !== undefined
+      ? { deliveredParts: update.deliveredParts }
+      : {}),
+    // Only set once the report actually reached the user
+    ...(update.status === "success" ? { deliveredAt: Date.now() } : {}),
+  });
+}
@@ -5,6 +5,9 @@
 import type { SearchResult } from "../../models/search-result";
 import type { LLMProvider } from "../../interfaces/llm-provider";
 import type { SearchProvider } from "../../interfaces/search-provider";
+import type { RunUsage } from "./usage-tracking";
+import type { BudgetExceeded } from "./budget";
+import type { ContentCacheStats } from "../../models/delivery-log";
 
 /**
  * Research execution options
@@ -16,6 +19,9 @@ export interface ResearchOptions {
   relevancyThreshold?: number; // Min score (default: from project.settings)
   concurrentExtractions?: number; // Parallel extractions (default: 3)
   ignoreFrequencyCheck?: boolean; // Skip frequency validation (default: false)
+  skipDelivery?: boolean; // Only prepare the report (pending delivery log, schedule unchanged) (default: false)
+  defaultUserBudgetUsd?: number; // Monthly budget for users without users/{userId}.monthlyBudgetUsd (default: unlimited)
+  signal?: AbortSignal; // Cancels the run (e.g. on a scheduler timeout); the caller then owns the project status
 
   // Provider injection (for switching between providers)
   llmProvider?: LLMProvider; // Custom LLM provider (default: OpenAI)
@@ -42,6 +48,8 @@ export interface ResearchResult {
   urlsFetched: number;
   urlsSuccessful: number;
   urlsRelevant: number;
+  disallowedUrls?: string[]; // Skipped because robots.txt disallows them
+  contentCache?: ContentCacheStats; // Content cache hits and savings (absent without a cache)
 
   // Report
   report?: {
@@ -52,6 +60,10 @@ export interface ResearchResult {
     resultCount: number;
   };
 
+  // Usage
+  usage?: RunUsage; // LLM tokens, search requests and estimated cost (also for failed runs)
+  budgetExceeded?: BudgetExceeded; // Set when the run used up a budget (the project is paused)
+
   // Delivery
   deliveryLogId?: string; // ID of the created delivery log (if results were saved)
 
@@ -0,0 +1,91 @@
+/**
+ * Usage tracking for research runs
+ * Adds up LLM token usage per research step and search API requests per
+ * provider, with an estimated total cost
+ */
+
+import type { LLMTask } from "../../models/project";
+import type { LLMStepUsage } from "../../models/delivery-log";
+import type { LLMUsage, LLMUsageCallback } from "../../interfaces/llm-provider";
+import { estimateLLMCost } from "../llm/pricing";
+
+/**
+ * Search API price per request in USD, by provider name (lowercase)
+ */
+export const SEARCH_REQUEST_PRICING: Record<string, number> = {
+  "brave search": 0.005,
+  "google search": 0.005,
+  "bing search": 0.015,
+};
+
+/**
+ * Usage of a single research run
+ */
+export interface RunUsage {
+  llmUsage: Partial<Record<LLMTask, LLMStepUsage>>;
+  searchRequests: Record<string, number>; // By search provider name (lowercase)
+  estimatedCostUsd: number;
+}
+
+/**
+ * Create an empty usage record for a run
+ */
+export function createRunUsage(): RunUsage {
+  return {
+    llmUsage: {},
+    searchRequests: {},
+    estimatedCostUsd: 0,
+  };
+}
+
+/**
+ * Record the usage of an LLM call made for a research step
+ */
+export function recordLLMUsage(
+  runUsage: RunUsage,
+  step: LLMTask,
+  usage: LLMUsage
+): void {
+  const stepUsage = (runUsage.llmUsage[step] ??= {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    models: [],
+    estimatedCostUsd: 0,
+  });
+  const cost = estimateLLMCost(usage);
+
+  stepUsage.calls++;
+  stepUsage.promptTokens += usage.promptTokens;
+  stepUsage.completionTokens += usage.completionTokens;
+  stepUsage.estimatedCostUsd += cost;
+  if (!stepUsage.models.includes(usage.model)) {
+    stepUsage.models.push(usage.model);
+  }
+
+  runUsage.estimatedCostUsd += cost;
+}
+
+/**
+ * Get a usage callback that records LLM calls for a research step
+ */
+export function trackLLMUsage(
+  runUsage: RunUsage,
+  step: LLMTask
+): LLMUsageCallback {
+  return (usage) => recordLLMUsage(runUsage, step, usage);
+}
+
+/**
+ * Record search API requests made through a provider
+ */
+export function recordSearchRequests(
+  runUsage: RunUsage,
+  providerName: string,
+  count: number
+): void {
+  const provider = providerName.toLowerCase();
+  runUsage.searchRequests[provider] =
+    (runUsage.searchRequests[provider] || 0) + count;
+  runUsage.estimatedCostUsd += (SEARCH_REQUEST_PRICING[provider] || 0) * count;
+}
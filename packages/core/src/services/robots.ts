@@ -0,0 +1,252 @@
+/**
+ * robots.txt support
+ *
+ * Fetches, parses (RFC 9309) and caches robots.txt per origin, and checks
+ * URLs against the rules of the group for our user agent (falling back to
+ * the "*" group). Crawl-delay is read from the same group.
+ *
+ * Unavailable robots.txt files are handled as the RFC describes:
+ * - 4xx (e.g. no robots.txt): everything is allowed
+ * - 5xx: everything is disallowed until the next check
+ * Network errors and timeouts are treated as "no robots.txt"; the page
+ * fetch that follows fails on its own if the site is down.
+ */
+
+/**
+ * Rules of the robots.txt group that applies to our user agent
+ */
+export interface RobotsRules {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  crawlDelayMs?: number; // Crawl-delay of the group, if any
+  disallowAll?: boolean; // robots.txt could not be read (5xx)
+}
+
+const ROBOTS_FETCH_TIMEOUT_MS = 5000;
+
+// robots.txt files are parsed up to this size (RFC 9309: at least 500 KiB)
+const MAX_ROBOTS_TXT_BYTES = 500 * 1024;
+
+// How long robots.txt results are reused
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Bounds the number of cached origins
+const MAX_CACHED_ORIGINS = 5000;
+
+const robotsCache = new Map<
+  string,
+  { rules: Promise<RobotsRules>; expiresAt: number }
+>();
+
+/**
+ * Get the product token robots.txt groups are matched against
+ * ("RelevxBot/1.0 (+https://relevx.ai)" -> "relevxbot")
+ */
+export function getProductToken(userAgent: string): string {
+  const tokens = [...userAgent.matchAll(/([A-Za-z0-9_-]+)\/[\w.]+/g)].map(
+    (match) => match[1]
+  );
+  const token =
+    tokens.find((t) => t.toLowerCase() !== "mozilla") ||
+    userAgent.split(/[\s/]/)[0];
+  return token.toLowerCase();
+}
+
+/**
+ * Parse robots.txt and return the rules for a user agent
+ * Groups naming the agent's product token win over "*"; several matching
+ * groups are merged.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const productToken = getProductToken(userAgent);
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!lastWasAgent || !current) {
+        current = { agents: [], rules: { rules: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (!current) {
+      continue; // Rules before any user-agent line
+    }
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds >= 0) {
+        current.rules.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const ownGroups = groups.filter((g) => g.agents.includes(productToken));
+  const matching =
+    ownGroups.length > 0
+      ? ownGroups
+      : groups.filter((g) => g.agents.includes("*"));
+
+  const crawlDelays = matching
+    .map((g) => g.rules.crawlDelayMs)
+    .filter((d): d is number => d !== undefined);
+
+  return {
+    rules: matching.flatMap((g) => g.rules.rules),
+    crawlDelayMs: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+  };
+}
+
+/**
+ * Check whether a robots.txt path pattern matches a path
+ * ("*" matches any characters, a trailing "$" anchors the end)
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Check whether robots rules allow fetching a URL
+ * The longest matching pattern wins; allow wins a tie.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let path: string;
+  try {
+    const urlObj = new URL(url);
+    path = `${urlObj.pathname}${urlObj.search}`;
+  } catch (error) {
+    return true;
+  }
+
+  if (path === "/robots.txt") {
+    return true;
+  }
+  if (rules.disallowAll) {
+    return false;
+  }
+
+  let match: { allow: boolean; pattern: string } | undefined;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) {
+      continue;
+    }
+    if (
+      !match ||
+      rule.pattern.length > match.pattern.length ||
+      (rule.pattern.length === match.pattern.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+}
+
+/**
+ * Fetch and parse the robots.txt of an origin
+ */
+async function fetchRobotsRules(
+  origin: string,
+  userAgent: string
+): Promise<{ rules: RobotsRules; ttlMs: number }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    ROBOTS_FETCH_TIMEOUT_MS
+  );
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      signal: controller.signal,
+      headers: { "User-Agent": userAgent, Accept: "text/plain" },
+    });
+
+    if (response.status >= 500) {
+      return {
+        rules: { rules: [], disallowAll: true },
+        ttlMs: ROBOTS_ERROR_CACHE_TTL_MS,
+      };
+    }
+    if (!response.ok) {
+      return { rules: { rules: [] }, ttlMs: ROBOTS_CACHE_TTL_MS };
+    }
+
+    const text = (await response.text()).slice(0, MAX_ROBOTS_TXT_BYTES);
+    return {
+      rules: parseRobotsTxt(text, userAgent),
+      ttlMs: ROBOTS_CACHE_TTL_MS,
+    };
+  } catch (error: any) {
+    console.warn(`Could not fetch ${origin}/robots.txt:`, error.message);
+    return { rules: { rules: [] }, ttlMs: ROBOTS_ERROR_CACHE_TTL_MS };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Get the robots rules for a URL's origin (cached, concurrent lookups of
+ * the same origin share one request)
+ */
+export async function getRobotsRules(
+  url: string,
+  userAgent: string
+): Promise<RobotsRules> {
+  const origin = new URL(url).origin;
+  const key = `${origin} ${getProductToken(userAgent)}`;
+  const now = Date.now();
+
+  const cached = robotsCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.rules;
+  }
+
+  if (robotsCache.size >= MAX_CACHED_ORIGINS) {
+    for (const [cachedKey, entry] of robotsCache) {
+      if (entry.expiresAt <= now) robotsCache.delete(cachedKey);
+    }
+    if (robotsCache.size >= MAX_CACHED_ORIGINS) {
+      robotsCache.delete(robotsCache.keys().next().value!);
+    }
+  }
+
+  const entry = {
+    rules: fetchRobotsRules(origin, userAgent).then(({ rules, ttlMs }) => {
+      entry.expiresAt = Date.now() + ttlMs;
+      return rules;
+    }),
+    expiresAt: Infinity, // Until the fetch completes
+  };
+  robotsCache.set(key, entry);
+
+  return entry.rules;
+}
+
+/**
+ * Clear cached robots.txt rules
+ */
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
@@ -0,0 +1,235 @@
+/**
+ * Bing Search Provider Implementation
+ *
+ * Implementation of SearchProvider using the Bing Web Search API (v7)
+ */
+
+import type {
+  SearchProvider,
+  SearchFilters,
+  SearchResultItem,
+  SearchResponse,
+} from "../../interfaces/search-provider";
+import { buildQueryWithFilters } from "../brave-search/filters";
+
+const BING_SEARCH_API_URL = "https://api.bing.microsoft.com/v7.0/search";
+
+// API limit: at most 50 results per request
+const MAX_RESULTS_PER_REQUEST = 50;
+
+/**
+ * Bing search provider options
+ */
+export interface BingSearchProviderOptions {
+  baseUrl?: string; // API endpoint override (e.g. a fixture server in tests)
+  minRequestIntervalMs?: number; // Minimum time between requests (default: 1000, as for Brave)
+  maxRetries?: number; // Attempts per request (default: 3)
+}
+
+/**
+ * Bing Search implementation of SearchProvider
+ */
+export class BingSearchProvider implements SearchProvider {
+  private apiKey: string;
+  private baseUrl: string;
+  private minRequestIntervalMs: number;
+  private maxRetries: number;
+
+  // Rate limiting state
+  private lastRequestTime = 0;
+
+  constructor(apiKey: string, options?: BingSearchProviderOptions) {
+    if (!apiKey) {
+      throw new Error("Bing Search API key is required");
+    }
+    this.apiKey = apiKey;
+    this.baseUrl = options?.baseUrl || BING_SEARCH_API_URL;
+    this.minRequestIntervalMs = options?.minRequestIntervalMs ?? 1000;
+    this.maxRetries = options?.maxRetries || 3;
+  }
+
+  /**
+   * Rate limiting delay
+   */
+  private async applyRateLimit(): Promise<void> {
+    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
+
+    if (timeSinceLastRequest < this.minRequestIntervalMs) {
+      const waitTime = this.minRequestIntervalMs - timeSinceLastRequest;
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+
+    this.lastRequestTime = Date.now();
+  }
+
+  /**
+   * Build the API parameters for a search
+   */
+  private buildParams(query: string, filters?: SearchFilters): URLSearchParams {
+    const params = new URLSearchParams({
+      q: buildQueryWithFilters(query, filters),
+      count: Math.min(filters?.count || 20, MAX_RESULTS_PER_REQUEST).toString(),
+      responseFilter: "Webpages",
+    });
+
+    if (filters?.offset) {
+      params.append("offset", filters.offset.toString());
+    }
+
+    // Market ("en-US") needs both language and country; otherwise pass
+    // whichever is set on its own
+    if (filters?.language && filters?.country) {
+      params.append(
+        "mkt",
+        `${filters.language.toLowerCase()}-${filters.country.toUpperCase()}`
+      );
+    } else if (filters?.country) {
+      params.append("cc", filters.country.toUpperCase());
+    } else if (filters?.language) {
+      params.append("setLang", filters.language.toLowerCase());
+    }
+
+    if (filters?.safesearch) {
+      const safeSearch = {
+        off: "Off",
+        moderate: "Moderate",
+        strict: "Strict",
+      } as const;
+      params.append("safeSearch", safeSearch[filters.safesearch]);
+    }
+
+    // Bing takes an exact date range ("2025-01-01..2025-01-31")
+    if (filters?.dateFrom) {
+      const dateTo = filters.dateTo || new Date().toISOString().split("T")[0];
+      params.append("freshness", `${filters.dateFrom}..${dateTo}`);
+    }
+
+    return params;
+  }
+
+  /**
+   * Convert a Bing web page result to generic SearchResultItem
+   */
+  private convertResult(page: any): SearchResultItem {
+    return {
+      title: page.name || "",
+      url: page.url || "",
+      description: page.snippet || "",
+      publishedDate: page.datePublished,
+      thumbnail: page.thumbnailUrl
+        ? { src: page.thumbnailUrl, alt: page.name }
+        : undefined,
+      language: page.language,
+      meta: {
+        displayUrl: page.displayUrl,
+        dateLastCrawled: page.dateLastCrawled,
+      },
+    };
+  }
+
+  /**
+   * Execute a single web search request
+   */
+  private async searchOnce(
+    query: string,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    const params = this.buildParams(query, filters);
+
+    await this.applyRateLimit();
+
+    const response = await fetch(`${this.baseUrl}?${params.toString()}`, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        "Ocp-Apim-Subscription-Key": this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Bing Search API error (${response.status}): ${errorText}`
+      );
+    }
+
+    const data: any = await response.json();
+    const pages: any[] = data.webPages?.value || [];
+
+    return {
+      query: params.get("q") || query,
+      results: pages.map((page) => this.convertResult(page)),
+      totalResults: data.webPages?.totalEstimatedMatches || pages.length,
+    };
+  }
+
+  /**
+   * Execute a single web search (with retry logic)
+   */
+  async search(
+    query: string,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await this.searchOnce(query, filters);
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(
+          `Bing search attempt ${attempt}/${this.maxRetries} failed for query "${query}":`,
+          error
+        );
+
+        if (attempt < this.maxRetries) {
+          // Exponential backoff
+          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw new Error(
+      `Failed to search after ${this.maxRetries} attempts: ${lastError?.message}`
+    );
+  }
+
+  /**
+   * Execute multiple searches (rate limited per request)
+   */
+  async searchMultiple(
+    queries: string[],
+    filters?: SearchFilters
+  ): Promise<Map<string, SearchResponse>> {
+    const results = new Map<string, SearchResponse>();
+
+    for (const query of queries) {
+      try {
+        results.set(query, await this.search(query, filters));
+      } catch (error) {
+        console.error(`Failed to search query "${query}":`, error);
+        // Continue with other queries even if one fails
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the provider name
+   */
+  getName(): string {
+    return "Bing Search";
+  }
+}
+
+/**
+ * Factory function to create Bing Search provider
+ */
+export function createBingSearchProvider(
+  apiKey: string,
+  options?: BingSearchProviderOptions
+): BingSearchProvider {
+  return new BingSearchProvider(apiKey, options);
+}
@@ -0,0 +1,305 @@
+/**
+ * Google Search Provider Implementation
+ *
+ * Implementation of SearchProvider using the Google Programmable Search
+ * (Custom Search JSON API). Requires an API key and a search engine ID (cx).
+ */
+
+import type {
+  SearchProvider,
+  SearchFilters,
+  SearchResultItem,
+  SearchResponse,
+} from "../../interfaces/search-provider";
+import { buildQueryWithFilters } from "../brave-search/filters";
+
+const GOOGLE_SEARCH_API_URL = "https://www.googleapis.com/customsearch/v1";
+
+// API limits: at most 10 results per request, and only the first 100
+// results of a query can be retrieved
+const MAX_RESULTS_PER_REQUEST = 10;
+const MAX_RESULT_POSITION = 100;
+
+/**
+ * Google search provider options
+ */
+export interface GoogleSearchProviderOptions {
+  baseUrl?: string; // API endpoint override (e.g. a fixture server in tests)
+  minRequestIntervalMs?: number; // Minimum time between requests (default: 1000)
+  maxRetries?: number; // Attempts per request (default: 3)
+}
+
+/**
+ * Google Search implementation of SearchProvider
+ */
+export class GoogleSearchProvider implements SearchProvider {
+  private apiKey: string;
+  private engineId: string;
+  private baseUrl: string;
+  private minRequestIntervalMs: number;
+  private maxRetries: number;
+
+  // Rate limiting state
+  private lastRequestTime = 0;
+
+  constructor(
+    apiKey: string,
+    engineId: string | undefined = process.env.GOOGLE_SEARCH_ENGINE_ID,
+    options?: GoogleSearchProviderOptions
+  ) {
+    if (!apiKey) {
+      throw new Error("Google Search API key is required");
+    }
+    if (!engineId) {
+      throw new Error(
+        "Google search engine ID is required (set engineId or GOOGLE_SEARCH_ENGINE_ID)"
+      );
+    }
+    this.apiKey = apiKey;
+    this.engineId = engineId;
+    this.baseUrl = options?.baseUrl || GOOGLE_SEARCH_API_URL;
+    this.minRequestIntervalMs = options?.minRequestIntervalMs ?? 1000;
+    this.maxRetries = options?.maxRetries || 3;
+  }
+
+  /**
+   * Rate limiting delay
+   */
+  private async applyRateLimit(): Promise<void> {
+    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
+
+    if (timeSinceLastRequest < this.minRequestIntervalMs) {
+      const waitTime = this.minRequestIntervalMs - timeSinceLastRequest;
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+
+    this.lastRequestTime = Date.now();
+  }
+
+  /**
+   * Build the query and API parameters for a search
+   * siteSearch only takes a single domain, so multiple domains fall back to
+   * site: operators in the query
+   */
+  private buildParams(query: string, filters?: SearchFilters): URLSearchParams {
+    const includeDomains = filters?.includeDomains || [];
+    const excludeDomains = filters?.excludeDomains || [];
+
+    let siteSearch: { domain: string; filter: "i" | "e" } | undefined;
+    let queryFilters = filters;
+    if (includeDomains.length === 1) {
+      siteSearch = { domain: includeDomains[0], filter: "i" };
+      queryFilters = { excludeDomains };
+    } else if (includeDomains.length === 0 && excludeDomains.length === 1) {
+      siteSearch = { domain: excludeDomains[0], filter: "e" };
+      queryFilters = undefined;
+    }
+
+    const params = new URLSearchParams({
+      key: this.apiKey,
+      cx: this.engineId,
+      q: buildQueryWithFilters(query, queryFilters),
+    });
+
+    if (siteSearch) {
+      params.append("siteSearch", siteSearch.domain);
+      params.append("siteSearchFilter", siteSearch.filter);
+    }
+
+    if (filters?.language) {
+      params.append("lr", `lang_${filters.language.toLowerCase()}`);
+    }
+
+    if (filters?.country) {
+      params.append("gl", filters.country.toLowerCase());
+    }
+
+    if (filters?.safesearch) {
+      params.append("safe", filters.safesearch === "off" ? "off" : "active");
+    }
+
+    // Google restricts by age ("d7" = past 7 days) rather than a date range
+    if (filters?.dateFrom) {
+      const daysDiff = Math.floor(
+        (Date.now() - new Date(filters.dateFrom).getTime()) /
+          (1000 * 60 * 60 * 24)
+      );
+      params.append("dateRestrict", `d${Math.max(1, daysDiff)}`);
+    }
+
+    return params;
+  }
+
+  /**
+   * Convert a Google result item to generic SearchResultItem
+   */
+  private convertResult(item: any): SearchResultItem {
+    const metatags = item.pagemap?.metatags?.[0] || {};
+    const thumbnail = item.pagemap?.cse_thumbnail?.[0];
+
+    return {
+      title: item.title || "",
+      url: item.link || "",
+      description: item.snippet || "",
+      publishedDate:
+        metatags["article:published_time"] ||
+        metatags["og:updated_time"] ||
+        undefined,
+      thumbnail: thumbnail?.src
+        ? { src: thumbnail.src, alt: item.title }
+        : undefined,
+      meta: {
+        hostname: item.displayLink,
+      },
+    };
+  }
+
+  /**
+   * Fetch one page of results (start is 1-based)
+   */
+  private async fetchPage(
+    params: URLSearchParams,
+    start: number,
+    num: number
+  ): Promise<any> {
+    const pageParams = new URLSearchParams(params);
+    pageParams.set("start", start.toString());
+    pageParams.set("num", num.toString());
+
+    await this.applyRateLimit();
+
+    const response = await fetch(`${this.baseUrl}?${pageParams.toString()}`, {
+      method: "GET",
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Google Search API error (${response.status}): ${errorText}`
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fetch a page with retry logic (exponential backoff)
+   */
+  private async fetchPageWithRetry(
+    params: URLSearchParams,
+    start: number,
+    num: number
+  ): Promise<any> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await this.fetchPage(params, start, num);
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(
+          `Google search attempt ${attempt}/${this.maxRetries} failed for "${params.get(
+            "q"
+          )}":`,
+          error
+        );
+
+        if (attempt < this.maxRetries) {
+          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw new Error(
+      `Failed to search after ${this.maxRetries} attempts: ${lastError?.message}`
+    );
+  }
+
+  /**
+   * Execute a single web search
+   * Requests pages of up to 10 results until `count` results are collected,
+   * starting at `offset`
+   */
+  async search(
+    query: string,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    const params = this.buildParams(query, filters);
+    const count = filters?.count || 20;
+    const offset = filters?.offset || 0;
+
+    const results: SearchResultItem[] = [];
+    let totalResults = 0;
+    let requests = 0;
+    let start = offset + 1;
+
+    while (results.length < count && start <= MAX_RESULT_POSITION) {
+      const num = Math.min(
+        MAX_RESULTS_PER_REQUEST,
+        count - results.length,
+        MAX_RESULT_POSITION - start + 1
+      );
+      const data = await this.fetchPageWithRetry(params, start, num);
+      requests++;
+
+      const items: any[] = data.items || [];
+      results.push(...items.map((item) => this.convertResult(item)));
+      totalResults =
+        parseInt(data.searchInformation?.totalResults || "0", 10) || 0;
+
+      // No further pages
+      if (items.length < num || !data.queries?.nextPage) {
+        break;
+      }
+      start += items.length;
+    }
+
+    return {
+      query: params.get("q") || query,
+      results,
+      totalResults,
+      metadata: { requests },
+    };
+  }
+
+  /**
+   * Execute multiple searches (rate limited per request)
+   */
+  async searchMultiple(
+    queries: string[],
+    filters?: SearchFilters
+  ): Promise<Map<string, SearchResponse>> {
+    const results = new Map<string, SearchResponse>();
+
+    for (const query of queries) {
+      try {
+        results.set(query, await this.search(query, filters));
+      } catch (error) {
+        console.error(`Failed to search query "${query}":`, error);
+        // Continue with other queries even if one fails
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the provider name
+   */
+  getName(): string {
+    return "Google Search";
+  }
+}
+
+/**
+ * Factory function to create Google Search provider
+ */
+export function createGoogleSearchProvider(
+  apiKey: string,
+  engineId?: string,
+  options?: GoogleSearchProviderOptions
+): GoogleSearchProvider {
+  return new GoogleSearchProvider(apiKey, engineId, options);
+}
@@ -6,4 +6,15 @@ export {
   BraveSearchProvider,
   createBraveSearchProvider,
 } from "./brave-provider";
+export {
+  GoogleSearchProvider,
+  createGoogleSearchProvider,
+  type GoogleSearchProviderOptions,
+} from "./google-provider";
+export {
+  BingSearchProvider,
+  createBingSearchProvider,
+  type BingSearchProviderOptions,
+} from "./bing-provider";
+export { MockSearchProvider, type MockSearchFixture } from "./mock-provider";
 export type { SearchProvider } from "../../interfaces/search-provider";
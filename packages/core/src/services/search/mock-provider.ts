@@ -0,0 +1,87 @@
+/**
+ * Mock Search Provider
+ * Deterministic implementation of SearchProvider driven by fixture files,
+ * for offline end-to-end tests (no API calls)
+ */
+
+import type {
+  SearchProvider,
+  SearchFilters,
+  SearchResultItem,
+  SearchResponse,
+} from "../../interfaces/search-provider";
+import { loadFixtureFile } from "../llm/mock-provider";
+
+/**
+ * Mock search fixture file format
+ */
+export interface MockSearchFixture {
+  results: Record<string, SearchResultItem[]>; // Keyed by exact query
+  defaultResults?: SearchResultItem[]; // For queries without an entry (default: none)
+}
+
+export class MockSearchProvider implements SearchProvider {
+  private fixture: MockSearchFixture;
+
+  // Queries searched, in order (for test assertions)
+  readonly queries: string[] = [];
+
+  constructor(fixture: MockSearchFixture) {
+    this.fixture = fixture;
+  }
+
+  /**
+   * Create a provider from a fixture file
+   */
+  static fromFile(
+    filePath: string,
+    variables?: Record<string, string>
+  ): MockSearchProvider {
+    return new MockSearchProvider(loadFixtureFile(filePath, variables));
+  }
+
+  /**
+   * Execute a single search (scripted results)
+   */
+  async search(
+    query: string,
+    filters?: SearchFilters
+  ): Promise<SearchResponse> {
+    this.queries.push(query);
+
+    const results =
+      this.fixture.results[query] || this.fixture.defaultResults || [];
+    const limited = results.slice(
+      filters?.offset || 0,
+      (filters?.offset || 0) + (filters?.count || 20)
+    );
+
+    return {
+      query,
+      results: limited,
+      totalResults: results.length,
+      metadata: { mock: true },
+    };
+  }
+
+  /**
+   * Execute multiple searches
+   */
+  async searchMultiple(
+    queries: string[],
+    filters?: SearchFilters
+  ): Promise<Map<string, SearchResponse>> {
+    const responses = new Map<string, SearchResponse>();
+    for (const query of queries) {
+      responses.set(query, await this.search(query, filters));
+    }
+    return responses;
+  }
+
+  /**
+   * Get provider name
+   */
+  getName(): string {
+    return "Mock";
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Markdown to Slack Block Kit conversion
+ *
+ * Slack does not render standard markdown, so the compiled report is
+ * converted into Block Kit blocks using Slack's "mrkdwn" dialect.
+ */
+
+// Slack API limits
+export const MAX_BLOCKS_PER_MESSAGE = 50;
+const MAX_SECTION_TEXT_LENGTH = 3000;
+const MAX_HEADER_TEXT_LENGTH = 150;
+
+/**
+ * Subset of Block Kit blocks used for reports
+ */
+export type SlackBlock =
+  | { type: "header"; text: { type: "plain_text"; text: string } }
+  | { type: "section"; text: { type: "mrkdwn"; text: string } }
+  | { type: "context"; elements: Array<{ type: "mrkdwn"; text: string }> }
+  | { type: "image"; image_url: string; alt_text: string }
+  | { type: "divider" };
+
+/**
+ * Escape characters that Slack treats as control sequences
+ */
+function escapeSlackText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert inline markdown (bold, italics, links, code) to Slack mrkdwn
+ */
+export function markdownInlineToMrkdwn(text: string): string {
+  let converted = escapeSlackText(text);
+
+  // Images inside text become plain links
+  converted = converted.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, "<$2|$1>");
+
+  // Links: [text](url) -> <url|text>
+  converted = converted.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>");
+
+  // Bold: **text** or __text__ -> placeholder (restored as *text*)
+  converted = converted.replace(/\*\*(.+?)\*\*/g, "\u0000$1\u0000");
+  converted = converted.replace(/__(.+?)__/g, "\u0000$1\u0000");
+
+  // Italics: *text* -> _text_
+  converted = converted.replace(
+    /(^|[^*\w])\*(?!\s)([^*]+?)\*(?!\w)/g,
+    "$1_$2_"
+  );
+
+  // Strikethrough: ~~text~~ -> ~text~
+  converted = converted.replace(/~~(.+?)~~/g, "~$1~");
+
+  return converted.replace(/\u0000/g, "*");
+}
+
+/**
+ * Split text into chunks that fit within a section block
+ */
+function splitSectionText(text: string): string[] {
+  if (text.length <= MAX_SECTION_TEXT_LENGTH) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > MAX_SECTION_TEXT_LENGTH) {
+    // Prefer breaking on a line, then on a word
+    let breakAt = remaining.lastIndexOf("\n", MAX_SECTION_TEXT_LENGTH);
+    if (breakAt <= 0) {
+      breakAt = remaining.lastIndexOf(" ", MAX_SECTION_TEXT_LENGTH);
+    }
+    if (breakAt <= 0) {
+      breakAt = MAX_SECTION_TEXT_LENGTH;
+    }
+
+    chunks.push(remaining.substring(0, breakAt).trim());
+    remaining = remaining.substring(breakAt).trim();
+  }
+
+  if (remaining.length > 0) {
+    chunks.push(remaining);
+  }
+
+  return chunks;
+}
+
+/**
+ * Create a section block for each chunk of text
+ */
+function sectionBlocks(text: string): SlackBlock[] {
+  return splitSectionText(text).map((chunk) => ({
+    type: "section",
+    text: { type: "mrkdwn", text: chunk },
+  }));
+}
+
+/**
+ * Create a header block (plain text, limited length)
+ */
+export function headerBlock(text: string): SlackBlock {
+  const plain = text.replace(/[*_`#]/g, "").trim();
+  return {
+    type: "header",
+    text: {
+      type: "plain_text",
+      text:
+        plain.length > MAX_HEADER_TEXT_LENGTH
+          ? `${plain.substring(0, MAX_HEADER_TEXT_LENGTH - 3)}...`
+          : plain,
+    },
+  };
+}
+
+/**
+ * Convert a markdown report into Block Kit blocks
+ *
+ * Headings become bold lines, horizontal rules become dividers and
+ * standalone images become image blocks. Paragraphs and lists are grouped
+ * into section blocks.
+ */
+export function markdownToSlackBlocks(markdown: string): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+  let paragraph: string[] = [];
+  let inCodeBlock = false;
+
+  const flushParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text.length > 0) {
+      blocks.push(...sectionBlocks(text));
+    }
+    paragraph = [];
+  };
+
+  for (const line of markdown.split("\n")) {
+    const trimmed = line.trim();
+
+    // Code blocks are passed through verbatim
+    if (trimmed.startsWith("```")) {
+      paragraph.push("```");
+      inCodeBlock = !inCodeBlock;
+      if (!inCodeBlock) {
+        flushParagraph();
+      }
+      continue;
+    }
+
+    if (inCodeBlock) {
+      paragraph.push(escapeSlackText(line));
+      continue;
+    }
+
+    if (trimmed.length === 0) {
+      flushParagraph();
+      continue;
+    }
+
+    // Horizontal rule
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: "divider" });
+      continue;
+    }
+
+    // Headings
+    const heading = trimmed.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const headingText = heading[1].replace(/\*\*/g, "");
+      blocks.push(...sectionBlocks(`*${markdownInlineToMrkdwn(headingText)}*`));
+      continue;
+    }
+
+    // Standalone image
+    const image = trimmed.match(/^!\[([^\]]*)\]\(([^)\s]+)\)$/);
+    if (image) {
+      flushParagraph();
+      blocks.push({
+        type: "image",
+        image_url: image[2],
+        alt_text: image[1] || "Report image",
+      });
+      continue;
+    }
+
+    // List items
+    const listItem = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (listItem) {
+      const indent = " ".repeat(listItem[1].length);
+      paragraph.push(`${indent}• ${markdownInlineToMrkdwn(listItem[2])}`);
+      continue;
+    }
+
+    // Blockquote
+    const quote = trimmed.match(/^>\s?(.*)$/);
+    if (quote) {
+      paragraph.push(`>${markdownInlineToMrkdwn(quote[1])}`);
+      continue;
+    }
+
+    paragraph.push(markdownInlineToMrkdwn(trimmed));
+  }
+
+  if (inCodeBlock) {
+    paragraph.push("```");
+  }
+  flushParagraph();
+
+  return blocks;
+}
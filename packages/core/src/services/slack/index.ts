@@ -0,0 +1,158 @@
+import { CompiledReport } from "../llm/types";
+import {
+  markdownToSlackBlocks,
+  markdownInlineToMrkdwn,
+  headerBlock,
+  MAX_BLOCKS_PER_MESSAGE,
+  type SlackBlock,
+} from "./blocks";
+
+export { markdownToSlackBlocks, type SlackBlock } from "./blocks";
+
+/**
+ * Options for Slack delivery
+ */
+export interface SlackDeliveryOptions {
+  channel?: string; // Channel override (e.g. "#research")
+  reportUrl?: string; // Link to the full report, used when truncating
+  skipMessages?: number; // Messages already posted by an earlier attempt (not posted again)
+}
+
+/**
+ * Post a single message to an incoming webhook
+ */
+async function postToWebhook(
+  webhookUrl: string,
+  payload: Record<string, any>
+): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Slack webhook error (${response.status}): ${errorText}`);
+  }
+}
+
+/**
+ * Split report blocks into messages that fit Slack's block limit
+ *
+ * Incoming webhooks cannot reply in threads, so long reports are either
+ * truncated with a link to the full report (when one is available) or
+ * posted as consecutive continuation messages.
+ */
+function buildMessages(
+  title: string,
+  bodyBlocks: SlackBlock[],
+  footer: SlackBlock,
+  reportUrl?: string
+): SlackBlock[][] {
+  const header = headerBlock(title);
+
+  // Header + body + footer fits in one message
+  if (bodyBlocks.length + 2 <= MAX_BLOCKS_PER_MESSAGE) {
+    return [[header, ...bodyBlocks, footer]];
+  }
+
+  if (reportUrl) {
+    const truncationNotice: SlackBlock = {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `_This report was truncated._ <${reportUrl}|View the full report>`,
+      },
+    };
+    const available = MAX_BLOCKS_PER_MESSAGE - 3;
+    return [
+      [header, ...bodyBlocks.slice(0, available), truncationNotice, footer],
+    ];
+  }
+
+  const messages: SlackBlock[][] = [];
+  const perMessage = MAX_BLOCKS_PER_MESSAGE - 1;
+  for (let i = 0; i < bodyBlocks.length; i += perMessage) {
+    const chunk = bodyBlocks.slice(i, i + perMessage);
+    messages.push(
+      i === 0
+        ? [header, ...chunk]
+        : [headerBlock(`${title} (continued)`), ...chunk]
+    );
+  }
+
+  // Footer goes on the last message if there is room
+  const last = messages[messages.length - 1];
+  if (last.length < MAX_BLOCKS_PER_MESSAGE) {
+    last.push(footer);
+  } else {
+    messages.push([footer]);
+  }
+
+  return messages;
+}
+
+/**
+ * Send a research report to Slack via an incoming webhook
+ * Long reports take several messages; messagesSent tells how many of them
+ * were posted (also on failure), so a retry can continue with skipMessages
+ * instead of posting the first ones again.
+ */
+export async function sendReportSlack(
+  webhookUrl: string,
+  report: CompiledReport,
+  projectId: string,
+  options?: SlackDeliveryOptions
+): Promise<{
+  success: boolean;
+  messageCount?: number;
+  messagesSent: number;
+  error?: any;
+}> {
+  let messagesSent = options?.skipMessages || 0;
+
+  try {
+    // The header block already shows the title, so drop a leading H1
+    const markdown = report.markdown.replace(/^\s*#\s+[^\n]*\n/, "");
+    const bodyBlocks = markdownToSlackBlocks(markdown);
+
+    const footerText = options?.reportUrl
+      ? `Sent by Relevx Research Assistant • <${options.reportUrl}|Open report> • Project ID: ${projectId}`
+      : `Sent by Relevx Research Assistant • Project ID: ${projectId}`;
+    const footer: SlackBlock = {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: footerText }],
+    };
+
+    const messages = buildMessages(
+      report.title,
+      bodyBlocks,
+      footer,
+      options?.reportUrl
+    );
+
+    // Plain-text fallback shown in notifications
+    const fallbackText =
+      `Research Report: ${report.title}\n${markdownInlineToMrkdwn(
+        report.summary || ""
+      )}`.trim();
+
+    // Send sequentially so continuation messages stay in order
+    for (const blocks of messages.slice(messagesSent)) {
+      await postToWebhook(webhookUrl, {
+        text: fallbackText,
+        blocks,
+        ...(options?.channel ? { channel: options.channel } : {}),
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+      messagesSent++;
+    }
+
+    return { success: true, messageCount: messages.length, messagesSent };
+  } catch (error) {
+    console.error("Failed to send Slack message:", error);
+    return { success: false, messagesSent, error };
+  }
+}
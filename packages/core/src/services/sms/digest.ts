@@ -0,0 +1,172 @@
+/**
+ * SMS digest building
+ *
+ * Turns a compiled report into a short text message and keeps it within
+ * carrier segment limits.
+ */
+
+import type { CompiledReport } from "../llm/types";
+
+// Segment sizes (single message / per part of a concatenated message)
+const GSM7_SINGLE_SEGMENT = 160;
+const GSM7_MULTI_SEGMENT = 153;
+const UCS2_SINGLE_SEGMENT = 70;
+const UCS2_MULTI_SEGMENT = 67;
+
+// GSM 03.38 basic character set
+const GSM7_BASIC_CHARS =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+
+// GSM 03.38 extension table (each counts as two characters)
+const GSM7_EXTENDED_CHARS = "^{}\\[~]|€\f";
+
+/**
+ * Segment information for a message
+ */
+export interface SmsSegmentInfo {
+  encoding: "GSM-7" | "UCS-2";
+  length: number; // Length in encoding units
+  segments: number;
+}
+
+/**
+ * Replace typographic characters with GSM-7 equivalents and strip markdown
+ * so messages are not forced into the more expensive UCS-2 encoding
+ */
+export function normalizeSmsText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Links -> link text
+    .replace(/(\*\*|__|\*|_|`|~~)/g, "") // Emphasis and code markers
+    .replace(/^#{1,6}\s+/gm, "") // Headings
+    .replace(/[‘’‚′]/g, "'")
+    .replace(/[“”„″]/g, '"')
+    .replace(/[–—−]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[   ]/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+/**
+ * Calculate encoding and segment count for a message
+ */
+export function getSmsSegmentInfo(text: string): SmsSegmentInfo {
+  let gsmLength = 0;
+  let isGsm = true;
+
+  for (const char of text) {
+    if (GSM7_BASIC_CHARS.includes(char)) {
+      gsmLength += 1;
+    } else if (GSM7_EXTENDED_CHARS.includes(char)) {
+      gsmLength += 2;
+    } else {
+      isGsm = false;
+      break;
+    }
+  }
+
+  if (isGsm) {
+    return {
+      encoding: "GSM-7",
+      length: gsmLength,
+      segments:
+        gsmLength <= GSM7_SINGLE_SEGMENT
+          ? 1
+          : Math.ceil(gsmLength / GSM7_MULTI_SEGMENT),
+    };
+  }
+
+  // UCS-2 counts UTF-16 code units (surrogate pairs take two)
+  const ucsLength = text.length;
+  return {
+    encoding: "UCS-2",
+    length: ucsLength,
+    segments:
+      ucsLength <= UCS2_SINGLE_SEGMENT
+        ? 1
+        : Math.ceil(ucsLength / UCS2_MULTI_SEGMENT),
+  };
+}
+
+/**
+ * Check if a message fits within a number of segments
+ */
+export function fitsInSegments(text: string, maxSegments: number): boolean {
+  return getSmsSegmentInfo(text).segments <= maxSegments;
+}
+
+/**
+ * Shorten text at a word boundary until the message built from it fits
+ */
+function shortenToFit(
+  text: string,
+  build: (candidate: string) => string,
+  maxSegments: number
+): string | null {
+  if (fitsInSegments(build(text), maxSegments)) {
+    return text;
+  }
+
+  const words = text.split(" ");
+  while (words.length > 0) {
+    words.pop();
+    const candidate = `${words.join(" ").replace(/[\s.,;:-]+$/, "")}...`;
+    if (words.length > 0 && fitsInSegments(build(candidate), maxSegments)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build a short SMS digest from a compiled report
+ *
+ * The link to the full report is always kept; the summary (and if
+ * necessary the title) is shortened to fit within maxSegments. If the link
+ * leaves no room for a title, the message is the link alone.
+ */
+export function buildReportDigest(
+  report: CompiledReport,
+  reportUrl?: string,
+  maxSegments: number = 2
+): string {
+  const title = normalizeSmsText(report.title) || "Research Report";
+  const summary = normalizeSmsText(report.summary || "").replace(/\n/g, " ");
+  const linkLine = reportUrl ? `\nFull report: ${reportUrl}` : "";
+
+  const compose = (t: string, s: string) =>
+    `Relevx: ${t}${s ? `\n${s}` : ""}${linkLine}`;
+
+  // Shorten the summary first
+  if (summary) {
+    const fittedSummary = shortenToFit(
+      summary,
+      (candidate) => compose(title, candidate),
+      maxSegments
+    );
+    if (fittedSummary) {
+      return compose(title, fittedSummary);
+    }
+  }
+
+  // Summary doesn't fit at all - send the title (shortened if needed)
+  const fittedTitle = shortenToFit(
+    title,
+    (candidate) => compose(candidate, ""),
+    maxSegments
+  );
+
+  if (fittedTitle) {
+    return compose(fittedTitle, "");
+  }
+
+  // Not even a shortened title fits next to the link - send the link alone
+  const minimal = compose("Research Report", "");
+  return fitsInSegments(minimal, maxSegments) || !reportUrl
+    ? minimal
+    : reportUrl;
+}
@@ -0,0 +1,91 @@
+import { CompiledReport } from "../llm/types";
+import { buildReportDigest } from "./digest";
+import { TwilioSmsSender } from "./twilio-sender";
+import type { SmsSender } from "./types";
+
+export type { SmsSender, SmsSendResult } from "./types";
+export { TwilioSmsSender, type TwilioSenderConfig } from "./twilio-sender";
+export { InMemorySmsSender, type SentSmsMessage } from "./memory-sender";
+export {
+  buildReportDigest,
+  getSmsSegmentInfo,
+  normalizeSmsText,
+  type SmsSegmentInfo,
+} from "./digest";
+
+// SMS sender instance
+// Lazily created from environment variables unless one is set explicitly
+let smsSender: SmsSender | null = null;
+
+/**
+ * Set the SMS sender used for report delivery
+ * (e.g. an InMemorySmsSender for tests)
+ */
+export function setSmsSender(sender: SmsSender): void {
+  smsSender = sender;
+}
+
+/**
+ * Get the SMS sender instance
+ */
+export function getSmsSender(): SmsSender {
+  if (!smsSender) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const fromNumber = process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid || !authToken || !fromNumber) {
+      throw new Error(
+        "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set in environment variables"
+      );
+    }
+
+    smsSender = new TwilioSmsSender({
+      accountSid,
+      authToken,
+      fromNumber,
+      baseUrl: process.env.TWILIO_API_URL,
+    });
+  }
+  return smsSender;
+}
+
+/**
+ * Check that a phone number is in E.164 format
+ */
+export function isValidE164(phoneNumber: string): boolean {
+  return /^\+[1-9]\d{1,14}$/.test(phoneNumber);
+}
+
+/**
+ * Send a research report digest via SMS
+ */
+export async function sendReportSms(
+  phoneNumber: string,
+  report: CompiledReport,
+  projectId: string,
+  options?: {
+    reportUrl?: string; // Link to the full report
+    maxSegments?: number; // Maximum segments per message (default: 2)
+  }
+): Promise<{ success: boolean; id?: string; error?: any }> {
+  try {
+    if (!isValidE164(phoneNumber)) {
+      throw new Error(`Invalid E.164 phone number: ${phoneNumber}`);
+    }
+
+    const sender = getSmsSender();
+    const body = buildReportDigest(
+      report,
+      options?.reportUrl,
+      options?.maxSegments
+    );
+
+    const result = await sender.send(phoneNumber, body);
+
+    return { success: true, id: result.id };
+  } catch (error) {
+    console.error(`Failed to send SMS for project ${projectId}:`, error);
+    return { success: false, error };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * In-memory SMS sender
+ *
+ * Records messages instead of sending them. Used by test scripts and
+ * local development so no real texts go out.
+ */
+
+import type { SmsSender, SmsSendResult } from "./types";
+
+/**
+ * Message captured by the in-memory sender
+ */
+export interface SentSmsMessage {
+  id: string;
+  to: string;
+  body: string;
+  sentAt: number;
+}
+
+/**
+ * In-memory implementation of SmsSender
+ */
+export class InMemorySmsSender implements SmsSender {
+  readonly messages: SentSmsMessage[] = [];
+  private failureMessage: string | null = null;
+
+  /**
+   * Make every following send fail with the given message
+   * (pass null to succeed again)
+   */
+  failWith(message: string | null): void {
+    this.failureMessage = message;
+  }
+
+  /**
+   * Record a text message
+   */
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    if (this.failureMessage) {
+      throw new Error(this.failureMessage);
+    }
+
+    const message: SentSmsMessage = {
+      id: `mem-${this.messages.length + 1}`,
+      to,
+      body,
+      sentAt: Date.now(),
+    };
+    this.messages.push(message);
+
+    return { id: message.id };
+  }
+
+  /**
+   * Remove all recorded messages
+   */
+  clear(): void {
+    this.messages.length = 0;
+  }
+
+  /**
+   * Get the sender name
+   */
+  getName(): string {
+    return "In-Memory";
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Twilio SMS sender
+ *
+ * Sends messages through Twilio's REST API (or any API with the same shape).
+ */
+
+import type { SmsSender, SmsSendResult } from "./types";
+
+const TWILIO_API_URL = "https://api.twilio.com";
+
+/**
+ * Twilio sender configuration
+ */
+export interface TwilioSenderConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string; // E.164 sender number
+  baseUrl?: string; // Override for Twilio-compatible APIs
+}
+
+/**
+ * Twilio implementation of SmsSender
+ */
+export class TwilioSmsSender implements SmsSender {
+  private config: TwilioSenderConfig;
+
+  constructor(config: TwilioSenderConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send a text message
+   */
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const { accountSid, authToken, fromNumber } = this.config;
+    const baseUrl = (this.config.baseUrl || TWILIO_API_URL).replace(/\/+$/, "");
+    const url = `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(
+      accountSid
+    )}/Messages.json`;
+
+    const credentials = Buffer.from(`${accountSid}:${authToken}`).toString(
+      "base64"
+    );
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        To: to,
+        From: fromNumber,
+        Body: body,
+      }).toString(),
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(
+        `Twilio API error (${response.status}): ${
+          data.message || response.statusText
+        }`
+      );
+    }
+
+    return { id: data.sid };
+  }
+
+  /**
+   * Get the sender name
+   */
+  getName(): string {
+    return "Twilio";
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Type definitions for SMS delivery
+ */
+
+/**
+ * Result of sending a single SMS message
+ */
+export interface SmsSendResult {
+  id?: string; // Provider message ID
+}
+
+/**
+ * SMS sender interface
+ * Implemented by provider adapters (Twilio, in-memory, etc.)
+ */
+export interface SmsSender {
+  /**
+   * Send a text message to an E.164 phone number
+   */
+  send(to: string, body: string): Promise<SmsSendResult>;
+
+  /**
+   * Get the sender name
+   */
+  getName(): string;
+}
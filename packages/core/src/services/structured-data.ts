@@ -0,0 +1,425 @@
+/**
+ * Structured data extraction
+ *
+ * Reads page metadata from the structured sources publishers provide, in
+ * order of precedence:
+ * 1. JSON-LD (schema.org NewsArticle, ScholarlyArticle, Product, ...)
+ * 2. Microdata (itemscope/itemprop)
+ * 3. OpenGraph (og:*, article:*) and Twitter card tags
+ * 4. <link rel="canonical"> and <html lang>
+ * and normalizes them into one set of fields (dates as ISO strings, URLs
+ * absolute).
+ */
+
+import * as cheerio from "cheerio";
+
+/**
+ * schema.org item as parsed from JSON-LD or microdata
+ */
+type SchemaItem = Record<string, any>;
+
+/**
+ * Normalized page metadata from structured data
+ */
+export interface StructuredMetadata {
+  schemaType?: string; // schema.org type of the main item (e.g. "NewsArticle")
+  title?: string;
+  description?: string;
+  author?: string; // Comma-separated if several
+  publishedDate?: string; // ISO date string
+  modifiedDate?: string; // ISO date string
+  section?: string;
+  keywords?: string[];
+  imageUrl?: string;
+  canonicalUrl?: string;
+  siteName?: string;
+  language?: string; // BCP 47 tag (e.g. "en", "en-US")
+  brand?: string; // Products
+  price?: string; // Products ("19.99 USD")
+  ogType?: string;
+}
+
+// Main item types, most specific first
+const PRIMARY_TYPES = [
+  "NewsArticle",
+  "ReportageNewsArticle",
+  "AnalysisNewsArticle",
+  "ScholarlyArticle",
+  "BlogPosting",
+  "TechArticle",
+  "Report",
+  "Article",
+  "Product",
+  "VideoObject",
+  "WebPage",
+];
+
+/**
+ * First non-empty string among the values
+ */
+function firstOf(...values: Array<string | undefined>): string | undefined {
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (trimmed) {
+      return trimmed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a date to an ISO string (unparseable dates are kept as given)
+ */
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Resolve a URL against the page URL (undefined if invalid)
+ */
+function resolveUrl(value: string | undefined, pageUrl: string) {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value, pageUrl).href;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Get the schema.org types of an item, without the vocabulary prefix
+ */
+function getTypes(item: SchemaItem): string[] {
+  const types = Array.isArray(item["@type"]) ? item["@type"] : [item["@type"]];
+  return types
+    .filter((type): type is string => typeof type === "string")
+    .map((type) => type.replace(/^https?:\/\/schema\.org\//, ""));
+}
+
+/**
+ * Text of a schema.org value (a string, a number, or an item with a name)
+ */
+function getText(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    return getText(value[0]);
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
+  }
+  if (value && typeof value === "object") {
+    return getText(value.name ?? value["@value"]);
+  }
+  return undefined;
+}
+
+/**
+ * Names of the people or organizations in a schema.org value
+ */
+function getNames(value: any): string | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  const names = values
+    .map((v) => getText(v)?.trim())
+    .filter((name): name is string => !!name);
+  return names.length > 0 ? [...new Set(names)].join(", ") : undefined;
+}
+
+/**
+ * URL of a schema.org image value (a string, an ImageObject, or a list)
+ */
+function getImageUrl(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    return getImageUrl(value[0]);
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    return getImageUrl(value.url ?? value.contentUrl);
+  }
+  return undefined;
+}
+
+/**
+ * Split keywords given as a list or a comma-separated string
+ */
+function getKeywords(value: any): string[] | undefined {
+  const keywords = (Array.isArray(value) ? value : [value])
+    .flatMap((v) => (typeof v === "string" ? v.split(",") : []))
+    .map((k) => k.trim())
+    .filter(Boolean);
+  return keywords.length > 0 ? keywords : undefined;
+}
+
+/**
+ * Flatten JSON-LD documents into their items (lists, @graph, mainEntity)
+ */
+function collectItems(value: any, items: SchemaItem[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectItems(v, items));
+    return;
+  }
+  if (!value || typeof value !== "object") {
+    return;
+  }
+
+  if (value["@type"]) {
+    items.push(value);
+  }
+  if (value["@graph"]) {
+    collectItems(value["@graph"], items);
+  }
+  if (value.mainEntity && typeof value.mainEntity === "object") {
+    collectItems(value.mainEntity, items);
+  }
+}
+
+/**
+ * Parse the JSON-LD blocks of a page (invalid blocks are skipped)
+ */
+function parseJsonLd($: cheerio.CheerioAPI): SchemaItem[] {
+  const items: SchemaItem[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      // Some sites leave raw control characters in strings
+      const json = $(el)
+        .text()
+        .replace(/[\u0000-\u001f]+/g, " ");
+      collectItems(JSON.parse(json), items);
+    } catch (error) {
+      // Skip invalid JSON-LD
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Value of a microdata property element
+ */
+function getMicrodataValue($: cheerio.CheerioAPI, el: any): string {
+  const $el = $(el);
+  switch (el.tagName) {
+    case "meta":
+      return $el.attr("content") || "";
+    case "a":
+    case "link":
+    case "area":
+      return $el.attr("href") || "";
+    case "img":
+    case "audio":
+    case "video":
+    case "source":
+      return $el.attr("src") || "";
+    case "time":
+      return $el.attr("datetime") || $el.text().trim();
+    case "data":
+    case "meter":
+      return $el.attr("value") || "";
+    default:
+      return $el.attr("content") || $el.text().replace(/\s+/g, " ").trim();
+  }
+}
+
+/**
+ * Read a microdata item and its nested items
+ */
+function readMicrodataItem($: cheerio.CheerioAPI, scope: any): SchemaItem {
+  const item: SchemaItem = {};
+  const itemType = $(scope).attr("itemtype");
+  if (itemType) {
+    item["@type"] = itemType.split(/\s+/);
+  }
+
+  $(scope)
+    .find("[itemprop]")
+    .each((_, el: any) => {
+      // Properties of nested items belong to those items
+      if ($(el).parent().closest("[itemscope]")[0] !== scope) {
+        return;
+      }
+
+      const value =
+        $(el).attr("itemscope") !== undefined
+          ? readMicrodataItem($, el)
+          : getMicrodataValue($, el);
+
+      for (const name of ($(el).attr("itemprop") || "").split(/\s+/)) {
+        if (!name) continue;
+        if (item[name] === undefined) {
+          item[name] = value;
+        } else {
+          item[name] = [item[name], value].flat();
+        }
+      }
+    });
+
+  return item;
+}
+
+/**
+ * Parse the top-level microdata items of a page
+ */
+function parseMicrodata($: cheerio.CheerioAPI): SchemaItem[] {
+  return $("[itemscope]:not([itemprop])")
+    .toArray()
+    .map((scope) => readMicrodataItem($, scope))
+    .filter((item) => item["@type"]);
+}
+
+/**
+ * Pick the item that describes the page itself
+ */
+function findPrimaryItem(items: SchemaItem[]): SchemaItem | undefined {
+  for (const type of PRIMARY_TYPES) {
+    const item = items.find((i) => getTypes(i).includes(type));
+    if (item) {
+      return item;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read OpenGraph, article:* and Twitter card tags
+ * Repeated tags (e.g. article:tag) are collected in order
+ */
+function parseMetaTags($: cheerio.CheerioAPI): Map<string, string[]> {
+  const tags = new Map<string, string[]>();
+
+  $("meta[property], meta[name]").each((_, el) => {
+    const key = ($(el).attr("property") || $(el).attr("name") || "")
+      .trim()
+      .toLowerCase();
+    const content = $(el).attr("content")?.trim();
+    if (!content || !/^(og|article|twitter|book|profile|product):/.test(key)) {
+      return;
+    }
+    tags.set(key, [...(tags.get(key) || []), content]);
+  });
+
+  return tags;
+}
+
+/**
+ * Extract normalized metadata from the structured data of a page
+ */
+export function extractStructuredData(
+  $: cheerio.CheerioAPI,
+  pageUrl: string
+): StructuredMetadata {
+  const items = [...parseJsonLd($), ...parseMicrodata($)];
+  const primary = findPrimaryItem(items) || {};
+  const website = items.find((i) => getTypes(i).includes("WebSite"));
+  const meta = parseMetaTags($);
+  const tag = (name: string) => meta.get(name)?.[0];
+
+  const offers = Array.isArray(primary.offers)
+    ? primary.offers[0]
+    : primary.offers;
+  const price = firstOf(
+    getText(offers?.price),
+    getText(offers?.lowPrice),
+    tag("product:price:amount")
+  );
+  const currency = firstOf(
+    getText(offers?.priceCurrency),
+    tag("product:price:currency")
+  );
+
+  // "en_US" (OpenGraph locale) -> "en-US"
+  const language = firstOf(
+    getText(primary.inLanguage),
+    $("html").attr("lang"),
+    tag("og:locale")?.replace("_", "-"),
+    $('meta[http-equiv="content-language"]').attr("content")
+  );
+
+  return {
+    schemaType: getTypes(primary)[0],
+    title: firstOf(
+      getText(primary.headline),
+      getText(primary.name),
+      tag("og:title"),
+      tag("twitter:title")
+    ),
+    description: firstOf(
+      getText(primary.description),
+      tag("og:description"),
+      tag("twitter:description")
+    ),
+    author: firstOf(
+      getNames(primary.author),
+      getNames(primary.creator),
+      // article:author is often a profile URL rather than a name
+      meta
+        .get("article:author")
+        ?.filter((a) => !/^https?:\/\//.test(a))
+        .join(", "),
+      tag("twitter:creator")
+    ),
+    publishedDate: normalizeDate(
+      firstOf(
+        getText(primary.datePublished),
+        getText(primary.dateCreated),
+        getText(primary.uploadDate),
+        tag("article:published_time"),
+        tag("og:published_time")
+      )
+    ),
+    modifiedDate: normalizeDate(
+      firstOf(
+        getText(primary.dateModified),
+        tag("article:modified_time"),
+        tag("og:updated_time")
+      )
+    ),
+    section: firstOf(getText(primary.articleSection), tag("article:section")),
+    keywords: getKeywords(primary.keywords) || meta.get("article:tag"),
+    imageUrl: resolveUrl(
+      firstOf(
+        tag("og:image"),
+        tag("og:image:url"),
+        tag("twitter:image"),
+        getImageUrl(primary.image),
+        getImageUrl(primary.thumbnailUrl)
+      ),
+      pageUrl
+    ),
+    canonicalUrl: resolveUrl(
+      firstOf(
+        $('link[rel="canonical"]').attr("href"),
+        tag("og:url"),
+        getText(primary.url),
+        getText(primary.mainEntityOfPage?.["@id"] ?? primary.mainEntityOfPage)
+      ),
+      pageUrl
+    ),
+    siteName: firstOf(
+      tag("og:site_name"),
+      getText(primary.publisher),
+      getText(website?.name),
+      tag("twitter:site")?.replace(/^@/, "")
+    ),
+    language,
+    brand: getText(primary.brand),
+    price: price ? [price, currency].filter(Boolean).join(" ") : undefined,
+    ogType: tag("og:type"),
+  };
+}
+
+/**
+ * Extract normalized metadata from the structured data of an HTML page
+ */
+export function extractStructuredDataFromHtml(
+  html: string,
+  pageUrl: string
+): StructuredMetadata {
+  return extractStructuredData(cheerio.load(html), pageUrl);
+}
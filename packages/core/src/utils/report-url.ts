@@ -0,0 +1,27 @@
+/**
+ * Report link utilities
+ */
+
+/**
+ * Build a link to a delivered report in the web app
+ * (opened in the report dialog of the projects page)
+ * @param projectId - Project the report belongs to
+ * @param deliveryLogId - Delivery log holding the report
+ * @param baseUrl - Web app base URL (default: APP_BASE_URL)
+ * @returns Absolute URL, or undefined when no base URL is configured
+ */
+export function buildReportUrl(
+  projectId: string,
+  deliveryLogId: string,
+  baseUrl: string | undefined = process.env.APP_BASE_URL
+): string | undefined {
+  if (!baseUrl) {
+    return undefined;
+  }
+
+  const params = new URLSearchParams({
+    projectId,
+    report: deliveryLogId,
+  });
+  return `${baseUrl.replace(/\/+$/, "")}/projects?${params.toString()}`;
+}
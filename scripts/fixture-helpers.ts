@@ -0,0 +1,136 @@
+/**
+ * Shared helpers for the fixture-based test scripts
+ *
+ * Fixtures live in scripts/fixtures/<name>. Providers are pointed at a local
+ * server on a random port that records each request and answers it from the
+ * script's handler (no network access needed).
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { AddressInfo } from "net";
+
+const FIXTURES_ROOT = path.resolve(__dirname, "fixtures");
+
+// Query the search fixture servers fail with a 429 on its first request
+export const RATE_LIMITED_QUERY = "rate limited battery";
+
+/**
+ * A request received by the fixture server
+ */
+export interface RecordedRequest {
+  path: string; // Without the query string
+  params: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any; // Parsed JSON body (raw text if not JSON, undefined if empty)
+}
+
+export type FixtureHandler = (
+  request: RecordedRequest,
+  res: http.ServerResponse
+) => void;
+
+/**
+ * Get a reader for the files in scripts/fixtures/<name>
+ */
+export function fixtureReader(name: string): (file: string) => string {
+  const dir = path.join(FIXTURES_ROOT, name);
+  return (file) => fs.readFileSync(path.join(dir, file), "utf-8");
+}
+
+/**
+ * Start a fixture server on a random local port
+ * Requests are recorded in `requests` before the handler answers them.
+ */
+export async function startFixtureServer(handler: FixtureHandler): Promise<{
+  server: http.Server;
+  origin: string;
+  requests: RecordedRequest[];
+}> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url || "/", "http://localhost");
+      const request: RecordedRequest = {
+        path: url.pathname,
+        params: url.searchParams,
+        headers: req.headers,
+        body: parseBody(body),
+      };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return { server, origin: `http://127.0.0.1:${port}`, requests };
+}
+
+function parseBody(body: string): any {
+  if (!body) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Create a check that is true only for the first request for
+ * RATE_LIMITED_QUERY (so retries succeed)
+ */
+export function rateLimitOnce(): (request: RecordedRequest) => boolean {
+  let served = false;
+  return (request) => {
+    if (served || request.params.get("q") !== RATE_LIMITED_QUERY) {
+      return false;
+    }
+    served = true;
+    return true;
+  };
+}
+
+/**
+ * Record a failed expectation
+ */
+export function check(
+  failures: string[],
+  label: string,
+  actual: any,
+  expected: any
+) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  console.log(`  ${ok ? "✓" : "✗"} ${label}: ${JSON.stringify(actual)}`);
+  if (!ok) {
+    failures.push(
+      `${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    );
+  }
+}
+
+/**
+ * Print the outcome and set the exit code
+ */
+export function reportFailures(failures: string[]) {
+  if (failures.length > 0) {
+    console.error("\n===========================================");
+    console.error("    ✗ Test failed");
+    console.error("===========================================\n");
+    failures.forEach((f) => console.error(`  - ${f}`));
+    process.exitCode = 1;
+  } else {
+    console.log("\n===========================================");
+    console.log("    ✓ Test completed successfully!");
+    console.log("===========================================\n");
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Bing Search provider test
+ *
+ * Runs BingSearchProvider against a local server that replays a recorded
+ * Web Search API response (no API key or network access needed), and checks
+ * the request parameters, result conversion and retries.
+ *
+ * Usage:
+ *   tsx scripts/test-bing-search.ts
+ *
+ * Fixtures (scripts/fixtures/bing-search):
+ *   web-search.json    - 3 web pages (one without datePublished)
+ *   rate-limited.json  - 429 error body
+ */
+
+import {
+  BingSearchProvider,
+  type BingSearchProviderOptions,
+} from "../packages/core/src/services/search/bing-provider";
+import {
+  RATE_LIMITED_QUERY,
+  fixtureReader,
+  startFixtureServer,
+  rateLimitOnce,
+  check,
+  reportFailures,
+} from "./fixture-helpers";
+
+const readFixture = fixtureReader("bing-search");
+
+/**
+ * Replay the recorded response
+ */
+async function startBingServer() {
+  const isRateLimited = rateLimitOnce();
+
+  const { server, origin, requests } = await startFixtureServer(
+    (request, res) => {
+      if (isRateLimited(request)) {
+        res.writeHead(429, { "Content-Type": "application/json" });
+        res.end(readFixture("rate-limited.json"));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(readFixture("web-search.json"));
+    }
+  );
+
+  return { server, baseUrl: `${origin}/v7.0/search`, requests };
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Bing Search Provider Test");
+  console.log("===========================================\n");
+
+  const { server, baseUrl, requests } = await startBingServer();
+  console.log(`✓ Fixture server listening at ${baseUrl}\n`);
+
+  const options: BingSearchProviderOptions = {
+    baseUrl,
+    minRequestIntervalMs: 0,
+    maxRetries: 2,
+  };
+  const provider = new BingSearchProvider("test-key", options);
+  const failures: string[] = [];
+
+  try {
+    // 1. Filters
+    console.log("=== Filters ===\n");
+    const response = await provider.search("solid-state battery", {
+      count: 15,
+      offset: 10,
+      language: "EN",
+      country: "us",
+      safesearch: "strict",
+      dateFrom: "2026-10-01",
+      dateTo: "2026-10-15",
+    });
+
+    const [first] = requests;
+    check(failures, "requests", requests.length, 1);
+    check(
+      failures,
+      "apiKey",
+      first?.headers["ocp-apim-subscription-key"],
+      "test-key"
+    );
+    check(failures, "q", first?.params.get("q"), "solid-state battery");
+    check(failures, "count", first?.params.get("count"), "15");
+    check(failures, "offset", first?.params.get("offset"), "10");
+    check(failures, "mkt", first?.params.get("mkt"), "en-US");
+    check(failures, "safeSearch", first?.params.get("safeSearch"), "Strict");
+    check(
+      failures,
+      "freshness",
+      first?.params.get("freshness"),
+      "2026-10-01..2026-10-15"
+    );
+    check(
+      failures,
+      "responseFilter",
+      first?.params.get("responseFilter"),
+      "Webpages"
+    );
+
+    // 2. Result conversion
+    console.log("\n=== Results ===\n");
+    check(failures, "results", response.results.length, 3);
+    check(failures, "totalResults", response.totalResults, 1240);
+    check(
+      failures,
+      "firstResult",
+      {
+        url: response.results[0]?.url,
+        publishedDate: response.results[0]?.publishedDate,
+        thumbnail: response.results[0]?.thumbnail?.src,
+        language: response.results[0]?.language,
+        displayUrl: response.results[0]?.meta?.displayUrl,
+      },
+      {
+        url: "https://example.com/news/solid-state-battery-pilot-line-opens",
+        publishedDate: "2026-10-10T08:00:00.0000000",
+        thumbnail: "https://www.bing.com/th?id=OIP.pilot-line",
+        language: "en",
+        displayUrl:
+          "https://example.com/news/solid-state-battery-pilot-line-opens",
+      }
+    );
+    check(
+      failures,
+      "undatedResult",
+      response.results[1]?.publishedDate ?? null,
+      null
+    );
+
+    // 3. Defaults and partial market filters
+    console.log("\n=== Defaults ===\n");
+    requests.length = 0;
+    await provider.search("solid-state battery", { count: 80 });
+    await provider.search("solid-state battery", {
+      country: "de",
+      safesearch: "moderate",
+    });
+    await provider.search("solid-state battery", {
+      language: "FR",
+      dateFrom: "2026-10-01",
+    });
+    const today = new Date().toISOString().split("T")[0];
+    check(
+      failures,
+      "count",
+      requests.map((r) => r.params.get("count")),
+      ["50", "20", "20"]
+    );
+    check(failures, "offset", requests[0]?.params.get("offset"), null);
+    check(
+      failures,
+      "market",
+      requests.map((r) => [
+        r.params.get("mkt"),
+        r.params.get("cc"),
+        r.params.get("setLang"),
+      ]),
+      [
+        [null, null, null],
+        [null, "DE", null],
+        [null, null, "fr"],
+      ]
+    );
+    check(
+      failures,
+      "safeSearch",
+      requests.map((r) => r.params.get("safeSearch")),
+      [null, "Moderate", null]
+    );
+    check(
+      failures,
+      "freshness",
+      requests[2]?.params.get("freshness"),
+      `2026-10-01..${today}`
+    );
+
+    // 4. Retry after a rate limit error
+    console.log("\n=== Retry ===\n");
+    requests.length = 0;
+    const results = await provider.searchMultiple([RATE_LIMITED_QUERY]);
+    check(failures, "requests", requests.length, 2);
+    check(
+      failures,
+      "results",
+      results.get(RATE_LIMITED_QUERY)?.results.length,
+      3
+    );
+  } catch (error: any) {
+    failures.push(`Unexpected error: ${error.message}`);
+  } finally {
+    server.close();
+  }
+
+  reportFailures(failures);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
@@ -0,0 +1,217 @@
+/**
+ * Google Search provider test
+ *
+ * Runs GoogleSearchProvider against a local server that replays recorded
+ * Custom Search JSON API responses (no API key or network access needed),
+ * and checks the request parameters, pagination, retries and rate limiting.
+ *
+ * Usage:
+ *   tsx scripts/test-google-search.ts
+ *
+ * Fixtures (scripts/fixtures/google-search):
+ *   page-1.json        - results 1-10 of 15 (has a next page)
+ *   page-11.json       - results 11-15 of 15 (last page)
+ *   rate-limited.json  - 429 error body
+ */
+
+import {
+  GoogleSearchProvider,
+  type GoogleSearchProviderOptions,
+} from "../packages/core/src/services/search/google-provider";
+import {
+  RATE_LIMITED_QUERY,
+  fixtureReader,
+  startFixtureServer,
+  rateLimitOnce,
+  check,
+  reportFailures,
+} from "./fixture-helpers";
+
+const readFixture = fixtureReader("google-search");
+
+/**
+ * Replay the recorded responses
+ * Pages are chosen by the `start` parameter
+ */
+async function startGoogleServer() {
+  const isRateLimited = rateLimitOnce();
+
+  const { server, origin, requests } = await startFixtureServer(
+    (request, res) => {
+      if (isRateLimited(request)) {
+        res.writeHead(429, { "Content-Type": "application/json" });
+        res.end(readFixture("rate-limited.json"));
+        return;
+      }
+
+      const start = request.params.get("start");
+      const body =
+        start === "1"
+          ? readFixture("page-1.json")
+          : start === "11"
+            ? readFixture("page-11.json")
+            : JSON.stringify({ searchInformation: { totalResults: "15" } });
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(body);
+    }
+  );
+
+  return { server, baseUrl: origin, requests };
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Google Search Provider Test");
+  console.log("===========================================\n");
+
+  const { server, baseUrl, requests } = await startGoogleServer();
+  console.log(`✓ Fixture server listening at ${baseUrl}\n`);
+
+  const options: GoogleSearchProviderOptions = {
+    baseUrl,
+    minRequestIntervalMs: 200,
+    maxRetries: 2,
+  };
+  const provider = new GoogleSearchProvider("test-key", "fixture-cx", options);
+  const failures: string[] = [];
+
+  try {
+    // 1. Filters and pagination (15 results = 10 + 5)
+    console.log("=== Filters and pagination ===\n");
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split("T")[0];
+    const response = await provider.search("solid-state battery", {
+      count: 15,
+      language: "en",
+      country: "US",
+      dateFrom: weekAgo,
+      includeDomains: ["example.com"],
+      excludeDomains: ["spam.example.org"],
+    });
+
+    const [first] = requests;
+    check(failures, "requests", requests.length, 2);
+    check(failures, "key", first?.params.get("key"), "test-key");
+    check(failures, "cx", first?.params.get("cx"), "fixture-cx");
+    check(
+      failures,
+      "q",
+      first?.params.get("q"),
+      "solid-state battery -site:spam.example.org"
+    );
+    check(
+      failures,
+      "siteSearch",
+      first?.params.get("siteSearch"),
+      "example.com"
+    );
+    check(
+      failures,
+      "siteSearchFilter",
+      first?.params.get("siteSearchFilter"),
+      "i"
+    );
+    check(failures, "lr", first?.params.get("lr"), "lang_en");
+    check(failures, "gl", first?.params.get("gl"), "us");
+    check(failures, "dateRestrict", first?.params.get("dateRestrict"), "d7");
+    check(
+      failures,
+      "pages",
+      requests.map((r) => `${r.params.get("start")}+${r.params.get("num")}`),
+      ["1+10", "11+5"]
+    );
+    check(failures, "results", response.results.length, 15);
+    check(failures, "totalResults", response.totalResults, 15);
+    check(
+      failures,
+      "firstResult",
+      {
+        url: response.results[0]?.url,
+        publishedDate: response.results[0]?.publishedDate,
+        hasThumbnail: !!response.results[0]?.thumbnail,
+        hostname: response.results[0]?.meta?.hostname,
+      },
+      {
+        url: "https://example.com/news/solid-state-battery-pilot-line-opens",
+        publishedDate: "2026-10-10T08:00:00Z",
+        hasThumbnail: true,
+        hostname: "example.com",
+      }
+    );
+
+    // 2. Offset
+    console.log("\n=== Offset ===\n");
+    requests.length = 0;
+    const offsetResponse = await provider.search("solid-state battery", {
+      count: 5,
+      offset: 10,
+    });
+    check(
+      failures,
+      "pages",
+      requests.map((r) => `${r.params.get("start")}+${r.params.get("num")}`),
+      ["11+5"]
+    );
+    check(
+      failures,
+      "firstResult",
+      offsetResponse.results[0]?.title,
+      "Solid electrolyte supply deals"
+    );
+
+    // 3. Several domains fall back to site: operators
+    console.log("\n=== Multiple domains ===\n");
+    requests.length = 0;
+    await provider.search("solid-state battery", {
+      count: 5,
+      includeDomains: ["example.com", "example.net"],
+    });
+    check(
+      failures,
+      "q",
+      requests[0]?.params.get("q"),
+      "solid-state battery (site:example.com OR site:example.net)"
+    );
+    check(failures, "siteSearch", requests[0]?.params.get("siteSearch"), null);
+
+    // 4. Requests are spaced by minRequestIntervalMs (200ms)
+    console.log("\n=== Rate limiting ===\n");
+    const rateLimitStart = Date.now();
+    await provider.searchMultiple(["battery a", "battery b", "battery c"], {
+      count: 5,
+    });
+    check(
+      failures,
+      "spacedRequests",
+      Date.now() - rateLimitStart >= 2 * 200,
+      true
+    );
+
+    // 5. Retry after a rate limit error
+    console.log("\n=== Retry ===\n");
+    requests.length = 0;
+    const results = await provider.searchMultiple([RATE_LIMITED_QUERY], {
+      count: 10,
+    });
+    check(failures, "requests", requests.length, 2);
+    check(
+      failures,
+      "results",
+      results.get(RATE_LIMITED_QUERY)?.results.length,
+      10
+    );
+  } catch (error: any) {
+    failures.push(`Unexpected error: ${error.message}`);
+  } finally {
+    server.close();
+  }
+
+  reportFailures(failures);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
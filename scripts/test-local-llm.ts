@@ -0,0 +1,254 @@
+/**
+ * Local LLM provider test
+ *
+ * Runs LocalProvider against a local server that mimics an OpenAI-compatible
+ * chat completions endpoint and replays recorded model output (no model or
+ * network access needed), and checks per-task models, usage reporting,
+ * retries and the JSON repair/salvage path for malformed responses.
+ *
+ * Usage:
+ *   tsx scripts/test-local-llm.ts
+ *
+ * Fixtures (scripts/fixtures/local-llm):
+ *   queries.txt                - JSON in a fenced block surrounded by prose
+ *   relevancy-truncated.txt    - trailing commas, output cut off mid-string
+ *   relevancy-broken-item.txt  - one invalid array item (salvaged)
+ *   report.txt                 - trailing comma, brackets inside strings
+ */
+
+import { LocalProvider } from "../packages/core/src/services/llm/local-provider";
+import { repairJson } from "../packages/core/src/services/llm/json-response";
+import type { LLMUsage } from "../packages/core/src/interfaces/llm-provider";
+import {
+  fixtureReader,
+  startFixtureServer,
+  check,
+  reportFailures,
+} from "./fixture-helpers";
+
+const readFixture = fixtureReader("local-llm");
+
+// Queued reply that fails with a server error instead of replaying a fixture
+const SERVER_ERROR = "<server error>";
+
+/**
+ * Answer chat completion requests
+ * Each request is answered with the next queued reply (fixture name or
+ * SERVER_ERROR)
+ */
+async function startChatServer() {
+  const replies: string[] = [];
+
+  const { server, origin, requests } = await startFixtureServer(
+    (request, res) => {
+      const reply = replies.shift();
+      if (!reply || reply === SERVER_ERROR) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "model crashed" } }));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: "chat.completion",
+          created: Math.floor(Date.now() / 1000),
+          model: request.body?.model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: readFixture(reply) },
+              finish_reason: "stop",
+            },
+          ],
+          usage: {
+            prompt_tokens: 100,
+            completion_tokens: 50,
+            total_tokens: 150,
+          },
+        })
+      );
+    }
+  );
+
+  return { server, baseUrl: `${origin}/v1`, requests, replies };
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Local LLM Provider Test");
+  console.log("===========================================\n");
+
+  const { server, baseUrl, requests, replies } = await startChatServer();
+  console.log(`✓ Fixture server listening at ${baseUrl}\n`);
+
+  const provider = new LocalProvider({
+    baseUrl,
+    model: "llama-3.1-8b-instruct",
+    models: { analysis: "qwen2.5-14b-instruct" },
+    jsonMode: true,
+    maxRetries: 2,
+  });
+  const usage: LLMUsage[] = [];
+  const onUsage = (u: LLMUsage) => usage.push(u);
+  const failures: string[] = [];
+
+  try {
+    // 1. repairJson only touches commas outside of strings
+    console.log("=== JSON repair ===\n");
+    check(
+      failures,
+      "trailingCommas",
+      repairJson('{"a": [1, 2,], "b": "x, ]",}'),
+      '{"a": [1, 2], "b": "x, ]"}'
+    );
+    check(
+      failures,
+      "truncated",
+      repairJson('{"results": [{"url": "a", "reasoning": "cut, }'),
+      '{"results": [{"url": "a", "reasoning": "cut, }"}]}'
+    );
+
+    // 2. Fenced JSON surrounded by prose
+    console.log("\n=== Query generation ===\n");
+    replies.push("queries.txt");
+    const queries = await provider.generateSearchQueries(
+      "Solid-state battery industry news",
+      undefined,
+      { count: 3, onUsage }
+    );
+    check(failures, "model", requests[0]?.body.model, "llama-3.1-8b-instruct");
+    check(failures, "responseFormat", requests[0]?.body.response_format, {
+      type: "json_object",
+    });
+    check(
+      failures,
+      "queries",
+      queries.map((q) => q.query),
+      [
+        "solid-state battery pilot line 2026",
+        "solid electrolyte supply agreement",
+        "sulfide electrolyte cell cost per kWh",
+      ]
+    );
+    check(failures, "usage", usage[0], {
+      provider: "local",
+      model: "llama-3.1-8b-instruct",
+      promptTokens: 100,
+      completionTokens: 50,
+    });
+
+    // 3. Truncated output is repaired (per-task model, clamped scores)
+    console.log("\n=== Repaired relevancy response ===\n");
+    requests.length = 0;
+    replies.push("relevancy-truncated.txt");
+    const contents = [
+      "https://example.com/news/pilot-line",
+      "https://example.com/news/supply-deal",
+      "https://example.com/blog/battery-basics",
+    ].map((url) => ({ url, title: url, snippet: "..." }));
+    const repaired = await provider.analyzeRelevancy(
+      "Solid-state battery industry news",
+      contents,
+      { threshold: 60 }
+    );
+    check(failures, "model", requests[0]?.body.model, "qwen2.5-14b-instruct");
+    check(
+      failures,
+      "results",
+      repaired.map((r) => [r.url, r.score, r.isRelevant]),
+      [
+        ["https://example.com/news/pilot-line", 92, true],
+        ["https://example.com/news/supply-deal", 100, true],
+        ["https://example.com/blog/battery-basics", 35, false],
+      ]
+    );
+    check(
+      failures,
+      "reasoning",
+      repaired[0]?.reasoning,
+      "Covers the new pilot line: capacity, cells, ]yield targets, and costs"
+    );
+    check(failures, "keyPoints", repaired[0]?.keyPoints, [
+      "Pilot line opened",
+      "2 GWh capacity",
+    ]);
+
+    // 4. Unrepairable item is skipped, the others are salvaged
+    console.log("\n=== Salvaged relevancy response ===\n");
+    replies.push("relevancy-broken-item.txt");
+    const salvaged = await provider.analyzeRelevancy(
+      "Solid-state battery industry news",
+      contents,
+      { threshold: 60 }
+    );
+    check(
+      failures,
+      "results",
+      salvaged.map((r) => [r.url, r.score]),
+      [
+        ["https://example.com/news/pilot-line", 88],
+        ["https://example.com/blog/battery-basics", 20],
+      ]
+    );
+
+    // 5. Retry after a server error, string contents survive the repair
+    console.log("\n=== Report with retry ===\n");
+    requests.length = 0;
+    replies.push(SERVER_ERROR, "report.txt");
+    const report = await provider.compileReport(
+      "Solid-state battery industry news",
+      [
+        {
+          url: "https://example.com/news/pilot-line",
+          title: "Pilot line opens",
+          snippet: "...",
+          score: 92,
+          keyPoints: ["Pilot line opened"],
+        },
+      ]
+    );
+    check(failures, "requests", requests.length, 2);
+    check(failures, "title", report.title, "Solid-State Battery Weekly");
+    check(
+      failures,
+      "markdown",
+      report.markdown,
+      "# Solid-State Battery Weekly\n\n- A 2 GWh pilot line opened, [see details]\n- Electrolyte supply secured for three years,}"
+    );
+
+    // 6. Filtering keeps all results once retries are used up
+    console.log("\n=== Filter fallback ===\n");
+    requests.length = 0;
+    replies.push(SERVER_ERROR, SERVER_ERROR);
+    const filtered = await provider.filterSearchResults(
+      [
+        {
+          url: "https://example.com/news/pilot-line",
+          title: "Pilot line opens",
+          description: "...",
+        },
+      ],
+      "Solid-state battery industry news"
+    );
+    check(failures, "requests", requests.length, 2);
+    check(
+      failures,
+      "results",
+      filtered.map((r) => [r.url, r.keep]),
+      [["https://example.com/news/pilot-line", true]]
+    );
+  } catch (error: any) {
+    failures.push(`Unexpected error: ${error.message}`);
+  } finally {
+    server.close();
+  }
+
+  reportFailures(failures);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
@@ -0,0 +1,105 @@
+/**
+ * Main content extraction test
+ *
+ * Runs extractMainContent over a corpus of saved HTML pages and compares the
+ * result with the expected text next to each page (no network access needed).
+ *
+ * Usage:
+ *   tsx scripts/test-main-content.ts           # compare with expected output
+ *   tsx scripts/test-main-content.ts --update  # rewrite expected output
+ *
+ * Fixtures (scripts/fixtures/main-content):
+ *   <name>.html  - saved page
+ *   <name>.txt   - expected main content (paragraphs separated by a blank line)
+ *
+ * Review the changes to the .txt files after --update: they are the
+ * definition of correct extraction for each page.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { extractMainContent } from "../packages/core/src/services/readability";
+
+const FIXTURES_DIR = path.resolve(__dirname, "fixtures/main-content");
+
+/**
+ * Describe the first paragraph where two texts differ
+ */
+function describeDifference(actual: string, expected: string): string {
+  const actualParagraphs = actual.split("\n\n");
+  const expectedParagraphs = expected.split("\n\n");
+
+  for (
+    let i = 0;
+    i < Math.max(actualParagraphs.length, expectedParagraphs.length);
+    i++
+  ) {
+    if (actualParagraphs[i] !== expectedParagraphs[i]) {
+      return [
+        `paragraph ${i + 1}:`,
+        `    expected: ${JSON.stringify(expectedParagraphs[i] ?? null)}`,
+        `    actual:   ${JSON.stringify(actualParagraphs[i] ?? null)}`,
+      ].join("\n");
+    }
+  }
+
+  return "no difference";
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Main Content Extraction Test");
+  console.log("===========================================\n");
+
+  const update = process.argv.includes("--update");
+  const pages = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".html"))
+    .sort();
+  const failures: string[] = [];
+
+  for (const page of pages) {
+    const name = path.basename(page, ".html");
+    const html = fs.readFileSync(path.join(FIXTURES_DIR, page), "utf-8");
+    const expectedPath = path.join(FIXTURES_DIR, `${name}.txt`);
+
+    const actual = extractMainContent(html);
+
+    if (update) {
+      fs.writeFileSync(expectedPath, `${actual}\n`);
+      console.log(`  ✎ ${name}: ${actual.split("\n\n").length} paragraphs`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedPath)) {
+      failures.push(`${name}: missing ${name}.txt (run with --update)`);
+      console.log(`  ✗ ${name}: no expected output`);
+      continue;
+    }
+
+    const expected = fs.readFileSync(expectedPath, "utf-8").trimEnd();
+    if (actual === expected) {
+      console.log(`  ✓ ${name}: ${actual.split("\n\n").length} paragraphs`);
+    } else {
+      console.log(`  ✗ ${name}`);
+      failures.push(`${name}: ${describeDifference(actual, expected)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error("\n===========================================");
+    console.error("    ✗ Test failed");
+    console.error("===========================================\n");
+    failures.forEach((f) => console.error(`  - ${f}`));
+    process.exitCode = 1;
+  } else {
+    console.log("\n===========================================");
+    console.log("    ✓ Test completed successfully!");
+    console.log("===========================================\n");
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
@@ -0,0 +1,191 @@
+/**
+ * Offline end-to-end test for the research flow
+ *
+ * Runs executeResearchForProject with fixture-driven mock providers
+ * (no OpenAI/Brave calls), a local HTTP server serving the fixture pages
+ * for content extraction, and the Firestore emulator.
+ *
+ * Usage:
+ *   firebase emulators:exec --only firestore "tsx scripts/test-research-offline.ts"
+ *
+ * Or with an emulator that is already running:
+ *   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 tsx scripts/test-research-offline.ts
+ *
+ * Fixtures (scripts/fixtures/research):
+ *   llm.json      - scripted queries, filtering, scores and report
+ *   search.json   - scripted search results ({{baseUrl}} = fixture server)
+ *   project.json  - project created in the emulator
+ *   expected.json - expected outcome
+ *   pages/        - HTML pages served by the fixture server
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { startFixtureServer, check, reportFailures } from "./fixture-helpers";
+
+const FIXTURES_DIR = path.resolve(__dirname, "fixtures/research");
+const PAGES_DIR = path.join(FIXTURES_DIR, "pages");
+
+const TEST_USER_ID = "offline-test-user";
+
+/**
+ * Serve the fixture pages
+ */
+async function startPagesServer() {
+  const { server, origin } = await startFixtureServer((request, res) => {
+    const fileName = path.basename(decodeURIComponent(request.path));
+    const filePath = path.join(PAGES_DIR, fileName);
+
+    if (!fileName || !fs.existsSync(filePath)) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(fs.readFileSync(filePath));
+  });
+
+  return { server, baseUrl: origin };
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Offline Research Flow Test");
+  console.log("===========================================\n");
+
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    console.error("✗ Error: FIRESTORE_EMULATOR_HOST is not set");
+    console.error(
+      "Run inside `firebase emulators:exec --only firestore` or point it at a running emulator.\n"
+    );
+    process.exit(1);
+  }
+
+  const { server, baseUrl } = await startPagesServer();
+  console.log(`✓ Fixture server listening at ${baseUrl}`);
+
+  try {
+    // Imported after the emulator check so core connects to the emulator
+    const {
+      db,
+      executeResearchForProject,
+      setDefaultProviders,
+      MockLLMProvider,
+      MockSearchProvider,
+    } = await import("../packages/core/src");
+
+    const llmProvider = MockLLMProvider.fromFile(
+      path.join(FIXTURES_DIR, "llm.json")
+    );
+    const searchProvider = MockSearchProvider.fromFile(
+      path.join(FIXTURES_DIR, "search.json"),
+      { baseUrl }
+    );
+    setDefaultProviders(llmProvider, searchProvider);
+
+    // Create a fresh project in the emulator
+    const projectFixture = JSON.parse(
+      fs.readFileSync(path.join(FIXTURES_DIR, "project.json"), "utf-8")
+    );
+    const now = Date.now();
+    await db
+      .collection("users")
+      .doc(TEST_USER_ID)
+      .set({ email: "offline-test@example.com" });
+    const projectRef = await db
+      .collection("users")
+      .doc(TEST_USER_ID)
+      .collection("projects")
+      .add({
+        ...projectFixture,
+        userId: TEST_USER_ID,
+        createdAt: now,
+        updatedAt: now,
+      });
+    console.log(`✓ Created project ${projectRef.id}\n`);
+
+    const result = await executeResearchForProject(
+      TEST_USER_ID,
+      projectRef.id,
+      { skipDelivery: true, ignoreFrequencyCheck: true }
+    );
+
+    const expected = JSON.parse(
+      fs.readFileSync(path.join(FIXTURES_DIR, "expected.json"), "utf-8")
+    );
+
+    console.log("\n=== Checks ===\n");
+    const failures: string[] = [];
+    check(failures, "success", result.success, true);
+    check(
+      failures,
+      "iterationsUsed",
+      result.iterationsUsed,
+      expected.iterationsUsed
+    );
+    check(
+      failures,
+      "queriesExecuted",
+      result.queriesExecuted.length,
+      expected.queriesExecuted
+    );
+    check(failures, "urlsFetched", result.urlsFetched, expected.urlsFetched);
+    check(
+      failures,
+      "relevantUrls",
+      result.relevantResults.map((r) => r.url.replace(baseUrl, "")),
+      expected.relevantUrls
+    );
+    check(failures, "reportTitle", result.report?.title, expected.reportTitle);
+    check(
+      failures,
+      "averageScore",
+      result.report?.averageScore,
+      expected.averageScore
+    );
+
+    const deliveryLog = result.deliveryLogId
+      ? await projectRef
+          .collection("deliveryLogs")
+          .doc(result.deliveryLogId)
+          .get()
+      : null;
+    check(
+      failures,
+      "deliveryLogStatus",
+      deliveryLog?.data()?.status,
+      "pending"
+    );
+    check(
+      failures,
+      "searchRequests",
+      deliveryLog?.data()?.stats?.searchRequests,
+      expected.searchRequests
+    );
+    check(
+      failures,
+      "queryGenerationCalls",
+      deliveryLog?.data()?.stats?.llmUsage?.query?.calls,
+      expected.queryGenerationCalls
+    );
+    check(
+      failures,
+      "reportCalls",
+      deliveryLog?.data()?.stats?.llmUsage?.report?.calls,
+      expected.reportCalls
+    );
+
+    reportFailures(failures);
+  } catch (error: any) {
+    console.error("\n✗ Offline research test failed:", error.message);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
@@ -0,0 +1,185 @@
+/**
+ * robots.txt test
+ *
+ * Checks group selection, rule precedence and path patterns of the
+ * robots.txt parser against saved robots.txt files, and how unavailable
+ * files are handled, using a local server (no network access needed).
+ *
+ * Usage:
+ *   tsx scripts/test-robots.ts
+ *
+ * Fixtures (scripts/fixtures/robots):
+ *   groups.txt    - "*", shared and repeated groups with crawl-delays
+ *   patterns.txt  - overlapping allow/disallow rules, "*" and "$" patterns
+ */
+
+import {
+  parseRobotsTxt,
+  isAllowedByRobots,
+  getRobotsRules,
+  clearRobotsCache,
+  type RobotsRules,
+} from "../packages/core/src/services/robots";
+import {
+  fixtureReader,
+  startFixtureServer,
+  check,
+  reportFailures,
+} from "./fixture-helpers";
+
+const readFixture = fixtureReader("robots");
+
+const USER_AGENT = "RelevxBot/1.0 (+https://relevx.ai)";
+
+/**
+ * Serve robots.txt
+ * The response is switched by setting `state.status`
+ */
+async function startRobotsServer() {
+  const state = { status: 200 };
+
+  const { server, origin, requests } = await startFixtureServer(
+    (request, res) => {
+      if (request.path !== "/robots.txt" || state.status !== 200) {
+        res.writeHead(request.path === "/robots.txt" ? state.status : 404);
+        res.end();
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(readFixture("patterns.txt"));
+    }
+  );
+
+  return { server, origin, requests, state };
+}
+
+/**
+ * Check which of the paths the rules allow
+ */
+function checkPaths(
+  failures: string[],
+  rules: RobotsRules,
+  expected: Record<string, boolean>
+) {
+  for (const [urlPath, allowed] of Object.entries(expected)) {
+    check(
+      failures,
+      urlPath,
+      isAllowedByRobots(rules, `https://example.com${urlPath}`),
+      allowed
+    );
+  }
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    robots.txt Test");
+  console.log("===========================================\n");
+
+  const failures: string[] = [];
+
+  // 1. Our own groups are merged and win over "*"
+  console.log("=== Own groups ===\n");
+  const groups = readFixture("groups.txt");
+  const ownRules = parseRobotsTxt(groups, USER_AGENT);
+  check(failures, "crawlDelayMs", ownRules.crawlDelayMs, 5000);
+  checkPaths(failures, ownRules, {
+    "/": true,
+    "/private/report": true,
+    "/drafts/report": false,
+    "/tmp/report": false,
+  });
+
+  // 2. Unknown agents fall back to "*"
+  console.log("\n=== Fallback group ===\n");
+  const fallbackRules = parseRobotsTxt(
+    groups,
+    "Mozilla/5.0 (compatible; UnknownBot/2.1)"
+  );
+  check(failures, "crawlDelayMs", fallbackRules.crawlDelayMs, 1000);
+  checkPaths(failures, fallbackRules, {
+    "/private/report": false,
+    "/drafts/report": true,
+  });
+
+  // 3. Product token matching ignores "Mozilla" and case
+  console.log("\n=== Product token ===\n");
+  const blockedRules = parseRobotsTxt(
+    groups,
+    "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)"
+  );
+  check(failures, "crawlDelayMs", blockedRules.crawlDelayMs ?? null, null);
+  checkPaths(failures, blockedRules, {
+    "/": false,
+    "/robots.txt": true,
+  });
+
+  // 4. Longest match wins (allow on a tie), "*" and "$" patterns
+  console.log("\n=== Patterns ===\n");
+  const patternRules = parseRobotsTxt(readFixture("patterns.txt"), USER_AGENT);
+  checkPaths(failures, patternRules, {
+    "/shop/cart": false,
+    "/shop/catalog/battery": true,
+    "/shop/catalog/internal/prices": false,
+    "/docs/report.pdf": false,
+    "/docs/report.pdf?download=1": true,
+    "/public/report.pdf": true,
+    "/search?lang=en&q=battery": false,
+    "/search?lang=en": true,
+    "/page": true,
+    "/pages/2": true,
+    "/news/print": false,
+    "/print": true,
+  });
+
+  // 5. Fetching: 200 is parsed and cached, 4xx allows, 5xx disallows
+  console.log("\n=== Fetching ===\n");
+  const { server, origin, requests, state } = await startRobotsServer();
+  try {
+    clearRobotsCache();
+    const fetched = await getRobotsRules(`${origin}/shop/cart`, USER_AGENT);
+    await getRobotsRules(`${origin}/shop/catalog/battery`, USER_AGENT);
+    check(failures, "requests", requests.length, 1);
+    check(
+      failures,
+      "fetchedRules",
+      isAllowedByRobots(fetched, `${origin}/shop/cart`),
+      false
+    );
+
+    clearRobotsCache();
+    state.status = 404;
+    const missing = await getRobotsRules(`${origin}/shop/cart`, USER_AGENT);
+    check(
+      failures,
+      "notFound",
+      isAllowedByRobots(missing, `${origin}/shop/cart`),
+      true
+    );
+
+    clearRobotsCache();
+    state.status = 503;
+    const unavailable = await getRobotsRules(`${origin}/`, USER_AGENT);
+    check(
+      failures,
+      "serverError",
+      [
+        isAllowedByRobots(unavailable, `${origin}/`),
+        isAllowedByRobots(unavailable, `${origin}/robots.txt`),
+      ],
+      [false, true]
+    );
+  } catch (error: any) {
+    failures.push(`Unexpected error: ${error.message}`);
+  } finally {
+    server.close();
+  }
+
+  reportFailures(failures);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
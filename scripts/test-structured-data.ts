@@ -0,0 +1,116 @@
+/**
+ * Structured data extraction test
+ *
+ * Runs extractStructuredData over saved HTML pages with JSON-LD, microdata
+ * and OpenGraph/Twitter tags and compares the normalized metadata with the
+ * expected fields next to each page (no network access needed).
+ *
+ * Usage:
+ *   tsx scripts/test-structured-data.ts           # compare with expected output
+ *   tsx scripts/test-structured-data.ts --update  # rewrite expected output
+ *
+ * Fixtures (scripts/fixtures/structured-data):
+ *   <name>.html  - saved page (served from https://example.com/pages/<name>)
+ *   <name>.json  - expected metadata
+ *
+ * Review the changes to the .json files after --update: they are the
+ * definition of correct extraction for each page.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { extractStructuredDataFromHtml } from "../packages/core/src/services/structured-data";
+
+const FIXTURES_DIR = path.resolve(__dirname, "fixtures/structured-data");
+
+// Relative URLs in the pages resolve against this
+const PAGE_URL_BASE = "https://example.com/pages/";
+
+/**
+ * Describe the fields where two metadata objects differ
+ */
+function describeDifference(
+  actual: Record<string, any>,
+  expected: Record<string, any>
+): string {
+  const fields = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+
+  return [...fields]
+    .filter(
+      (field) =>
+        JSON.stringify(actual[field]) !== JSON.stringify(expected[field])
+    )
+    .map((field) =>
+      [
+        `${field}:`,
+        `    expected: ${JSON.stringify(expected[field] ?? null)}`,
+        `    actual:   ${JSON.stringify(actual[field] ?? null)}`,
+      ].join("\n")
+    )
+    .join("\n  ");
+}
+
+async function main() {
+  console.log("===========================================");
+  console.log("    Structured Data Extraction Test");
+  console.log("===========================================\n");
+
+  const update = process.argv.includes("--update");
+  const pages = fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".html"))
+    .sort();
+  const failures: string[] = [];
+
+  for (const page of pages) {
+    const name = path.basename(page, ".html");
+    const html = fs.readFileSync(path.join(FIXTURES_DIR, page), "utf-8");
+    const expectedPath = path.join(FIXTURES_DIR, `${name}.json`);
+
+    // Round-trip through JSON to drop undefined fields
+    const actual = JSON.parse(
+      JSON.stringify(
+        extractStructuredDataFromHtml(html, `${PAGE_URL_BASE}${name}`)
+      )
+    );
+    const fieldCount = Object.keys(actual).length;
+
+    if (update) {
+      fs.writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`);
+      console.log(`  ✎ ${name}: ${fieldCount} fields`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedPath)) {
+      failures.push(`${name}: missing ${name}.json (run with --update)`);
+      console.log(`  ✗ ${name}: no expected output`);
+      continue;
+    }
+
+    const expected = JSON.parse(fs.readFileSync(expectedPath, "utf-8"));
+    const difference = describeDifference(actual, expected);
+    if (!difference) {
+      console.log(`  ✓ ${name}: ${fieldCount} fields`);
+    } else {
+      console.log(`  ✗ ${name}`);
+      failures.push(`${name}: ${difference}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error("\n===========================================");
+    console.error("    ✗ Test failed");
+    console.error("===========================================\n");
+    failures.forEach((f) => console.error(`  - ${f}`));
+    process.exitCode = 1;
+  } else {
+    console.log("\n===========================================");
+    console.log("    ✓ Test completed successfully!");
+    console.log("===========================================\n");
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().then(() => process.exit(process.exitCode || 0));
+}
@@ -1,26 +1,89 @@
 /**
  * Research Scheduler Service
  *
- * Runs cron jobs every minute with two main jobs:
+ * Runs cron jobs every minute:
+ * 0. Recovery Job - Resets projects left "running" by a crashed worker
+ *    Budget Resume Job - Reactivates projects paused for budget once their
+ *    budget allows runs again
  * 1. Research Job - Executes research for projects that need it
- *    - Pre-runs: Before delivery time based on SCHEDULER_CHECK_WINDOW_MINUTES (status: pending)
- *    - Retries: At or past delivery time if pre-run failed (status: success)
- * 2. Delivery Job - Marks prepared results as delivered when delivery time arrives
+ *    - Pre-runs: Before delivery time based on SCHEDULER_CHECK_WINDOW_MINUTES
+ *    - Retries: At or past delivery time if pre-run failed
+ *    Research only prepares the report (delivery log status: pending)
+ *    - Runs that use up the user's or project's monthly budget stop early
+ *      and pause the project ("budget_exceeded")
+ * 2. Delivery Job - Sends prepared results through the project's delivery channel
+ *    when delivery time arrives
+ *    - Failed deliveries are retried with backoff up to the channel's limit,
+ *      then marked failed and reported as a delivery_failure notification
+ * 3. Notification Dispatch Job - Sends pending admin notifications to the
+ *    admin email/webhook (see notification-dispatcher.ts)
  */
 
 import * as dotenv from "dotenv";
 import * as cron from "node-cron";
 import { logger } from "./logger";
+import { runNotificationDispatchJob } from "./notification-dispatcher";
+import {
+  JobTimeoutError,
+  runWithTimeout,
+  runWorkerPool,
+  waitForSettled,
+} from "./worker-pool";
+import {
+  acquireProjectLease,
+  releaseProjectLease,
+  renewProjectLease,
+} from "./lease";
+import {
+  findActiveProjectsDueBy,
+  findBudgetExceededProjects,
+  findRunningProjectsStartedBefore,
+} from "./project-queries";
+import {
+  getProviderSelection,
+  getProviderEnvVars,
+  getLLMApiKeys,
+  describeLLMConfig,
+  type ProviderSelection,
+} from "./provider-config";
 
 // Load environment variables
 dotenv.config();
 
 // Import types from core package
-import type { Project } from "core";
+import type {
+  Project,
+  NotificationType,
+  NotificationSeverity,
+  HybridLLMConfig,
+  LLMProvider,
+  BudgetExceeded,
+} from "core";
 
 // Provider instances (initialized once at startup)
 let providersInitialized = false;
 
+// Base LLM config, used to build providers for projects with llmOverrides
+let llmConfig: HybridLLMConfig | null = null;
+
+// Extra lease time beyond the research timeout, and lease time for a
+// single delivery attempt
+const LEASE_GRACE_MS = 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = 30 * 1000;
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+// Set while a research job is processing its queue, so overlapping cron
+// ticks don't exceed MAX_CONCURRENT_RESEARCH_JOBS
+let researchJobInProgress = false;
+
+/**
+ * Outcome of a research execution
+ */
+interface ResearchOutcome {
+  deliveryLogId: string | null; // Prepared (pending) delivery log
+  budgetExceeded?: BudgetExceeded; // Set when the run paused the project for budget
+}
+
 /**
  * Get check window in milliseconds (default: 15 minutes)
  */
@@ -32,6 +95,31 @@ function getCheckWindowMs(): number {
   return minutes * 60 * 1000;
 }
 
+/**
+ * Get maximum concurrent research jobs (default: 3)
+ */
+function getMaxConcurrentResearchJobs(): number {
+  return Math.max(
+    1,
+    parseInt(process.env.MAX_CONCURRENT_RESEARCH_JOBS || "3", 10) || 1
+  );
+}
+
+/**
+ * Get research job timeout in milliseconds (default: 5 minutes)
+ */
+function getResearchJobTimeoutMs(): number {
+  return parseInt(process.env.RESEARCH_JOB_TIMEOUT_MS || "300000", 10);
+}
+
+/**
+ * Get the monthly budget for users without their own (default: unlimited)
+ */
+function getDefaultUserBudgetUsd(): number | undefined {
+  const value = parseFloat(process.env.DEFAULT_USER_MONTHLY_BUDGET_USD || "");
+  return Number.isFinite(value) ? value : undefined;
+}
+
 /**
  * Initialize providers once at startup
  */
@@ -43,31 +131,70 @@ async function initializeProviders(): Promise<void> {
   logger.info("Initializing research providers");
 
   try {
-    // Validate API keys
-    const openaiKey = process.env.OPENAI_API_KEY;
-    const braveKey = process.env.BRAVE_SEARCH_API_KEY;
+    const selection = await getProviderSelection();
 
-    if (!openaiKey || !braveKey) {
-      throw new Error(
-        "Missing required API keys (OPENAI_API_KEY or BRAVE_SEARCH_API_KEY)"
-      );
+    // Validate API keys
+    const missingKeys = getProviderEnvVars(selection).filter(
+      (v) => !process.env[v]
+    );
+    if (missingKeys.length > 0) {
+      throw new Error(`Missing required API keys (${missingKeys.join(", ")})`);
     }
 
-    // Import provider classes and setup function from core package
-    const { OpenAIProvider, BraveSearchProvider, setDefaultProviders } =
-      await import("core");
+    // Import provider factories and setup function from core package
+    const {
+      createHybridProvider,
+      createSearchProvider,
+      setDefaultProviders,
+      configureContentFetching,
+      createScrapingBeeFetcher,
+      parseDomainFetchRules,
+      createFirestoreContentCache,
+    } = await import("core");
 
     // Create provider instances
-    const llmProvider = new OpenAIProvider(openaiKey);
-    const searchProvider = new BraveSearchProvider(braveKey);
+    const llmProvider = createHybridProvider(selection.llm, getLLMApiKeys());
+    const searchProvider = createSearchProvider({
+      provider: selection.search.provider,
+      apiKey: process.env[selection.search.apiKeyEnvVar]!,
+    });
 
     // Set as defaults for research engine
     setDefaultProviders(llmProvider, searchProvider);
+    llmConfig = selection.llm;
+
+    // Rendering fallback for blocked and JavaScript-heavy pages (optional)
+    const renderingFetcher = process.env.SCRAPINGBEE_API_KEY
+      ? createScrapingBeeFetcher(process.env.SCRAPINGBEE_API_KEY)
+      : undefined;
+
+    // Extracted content is shared across projects for a while (0 disables)
+    const cacheTtlHours = Number(process.env.CONTENT_CACHE_TTL_HOURS || "12");
+    if (isNaN(cacheTtlHours) || cacheTtlHours < 0) {
+      throw new Error(
+        `Invalid CONTENT_CACHE_TTL_HOURS "${process.env.CONTENT_CACHE_TTL_HOURS}"`
+      );
+    }
+
+    // Only set what is configured, so the other defaults stay in effect
+    configureContentFetching({
+      domainRules: parseDomainFetchRules(process.env.CONTENT_FETCH_RULES || ""),
+      cacheTtlMs: cacheTtlHours * 60 * 60 * 1000,
+      ...(renderingFetcher && { renderingFetcher }),
+      ...(process.env.CONTENT_FETCH_USER_AGENT && {
+        userAgent: process.env.CONTENT_FETCH_USER_AGENT,
+      }),
+      ...(cacheTtlHours > 0 && {
+        contentCache: createFirestoreContentCache(),
+      }),
+    });
 
     providersInitialized = true;
     logger.info("Research providers initialized successfully", {
-      llmProvider: "OpenAI",
-      searchProvider: "Brave Search",
+      llm: describeLLMConfig(selection.llm),
+      searchProvider: selection.search.provider,
+      renderingFetcher: renderingFetcher?.name || "none",
+      contentCacheTtlHours: cacheTtlHours,
     });
   } catch (error: any) {
     logger.error("Failed to initialize providers", {
@@ -79,19 +206,19 @@ async function initializeProviders(): Promise<void> {
 }
 
 /**
- * Execute research for a single project and return delivery log ID
+ * Execute research for a single project and return the ID of the prepared
+ * (pending) delivery log. Delivery happens later in the delivery job.
  */
 async function executeProjectResearch(
   userId: string,
   project: Project,
-  status: "pending" | "success" = "pending"
-): Promise<string | null> {
+  signal?: AbortSignal
+): Promise<ResearchOutcome> {
   logger.info("Starting research execution", {
     userId,
     projectId: project.id,
     title: project.title,
     frequency: project.frequency,
-    deliveryStatus: status,
   });
 
   try {
@@ -114,45 +241,70 @@ async function executeProjectResearch(
       updatedAt: Date.now(),
     });
 
-    // Execute research (this will save with default "success" status)
-    // We need to pass the status through the options
-    const result = await executeResearchForProject(userId, project.id);
+    // Projects can override the provider/model per task (e.g. a stronger
+    // report model); everything else uses the default providers
+    let llmProvider: LLMProvider | undefined;
+    if (project.llmOverrides && llmConfig) {
+      const { createHybridProvider, applyLLMOverrides } = await import("core");
+      const projectConfig = applyLLMOverrides(llmConfig, project.llmOverrides);
+      llmProvider = createHybridProvider(projectConfig, getLLMApiKeys());
 
-    if (result.success && result.deliveryLogId) {
-      // If we need pending status, update the delivery log
-      if (status === "pending") {
-        const deliveryLogRef = db
-          .collection("users")
-          .doc(userId)
-          .collection("projects")
-          .doc(project.id)
-          .collection("deliveryLogs")
-          .doc(result.deliveryLogId);
+      logger.info("Using project LLM overrides", {
+        userId,
+        projectId: project.id,
+        llm: describeLLMConfig(projectConfig),
+      });
+    }
 
-        await deliveryLogRef.update({
-          status: "pending",
-          preparedAt: Date.now(),
-          deliveredAt: null,
-        });
-      }
+    // Execute research (prepare only - the report is saved with "pending"
+    // status and sent by the delivery job at the scheduled delivery time).
+    // The schedule is driven by nextRunAt, so the engine's once-per-day
+    // guard (measured from the last delivery) is skipped.
+    const result = await executeResearchForProject(userId, project.id, {
+      skipDelivery: true,
+      ignoreFrequencyCheck: true,
+      signal,
+      llmProvider,
+      defaultUserBudgetUsd: getDefaultUserBudgetUsd(),
+    });
 
+    // Stopped by the spending budget - whatever was found is still prepared
+    if (result.success && result.budgetExceeded) {
+      logger.warn("Research stopped by spending budget", {
+        userId,
+        projectId: project.id,
+        budget: result.budgetExceeded.scope,
+        limitUsd: result.budgetExceeded.limitUsd,
+        spentUsd: result.budgetExceeded.spentUsd,
+        deliveryLogId: result.deliveryLogId,
+      });
+
+      return {
+        deliveryLogId: result.deliveryLogId || null,
+        budgetExceeded: result.budgetExceeded,
+      };
+    }
+
+    if (result.success && result.deliveryLogId) {
       logger.info("Research execution completed successfully", {
         userId,
         projectId: project.id,
         resultsCount: result.relevantResults.length,
         durationMs: result.durationMs,
         deliveryLogId: result.deliveryLogId,
-        status,
+        estimatedCostUsd: result.usage?.estimatedCostUsd,
+        searchRequests: result.usage?.searchRequests,
       });
 
-      return result.deliveryLogId;
+      return { deliveryLogId: result.deliveryLogId };
     } else {
       logger.error("Research execution failed", {
         userId,
         projectId: project.id,
         error: result.error,
+        estimatedCostUsd: result.usage?.estimatedCostUsd,
       });
-      return null;
+      return { deliveryLogId: null };
     }
   } catch (error: any) {
     logger.error("Research execution error", {
@@ -184,25 +336,27 @@ async function executeProjectResearch(
       });
     }
 
-    return null;
+    return { deliveryLogId: null };
   }
 }
 
 /**
- * Create admin notification for research failure
+ * Create admin notification for a research or delivery failure
  */
 async function createAdminNotification(
   userId: string,
   project: Project,
   error: string,
-  retryCount: number
+  retryCount: number,
+  type: NotificationType = "research_failure",
+  severity: NotificationSeverity = "high"
 ): Promise<void> {
   try {
     const { db } = await import("core");
 
     await db.collection("adminNotifications").add({
-      type: "research_failure",
-      severity: "high",
+      type,
+      severity,
       projectId: project.id,
       userId,
       projectTitle: project.title,
@@ -210,9 +364,11 @@ async function createAdminNotification(
       retryCount,
       occurredAt: Date.now(),
       status: "pending",
+      nextAttemptAt: 0, // Due now
     });
 
     logger.info("Admin notification created", {
+      type,
       projectId: project.id,
       userId,
       retryCount,
@@ -229,8 +385,17 @@ async function createAdminNotification(
  * Research Job
  * Handles both pre-runs (ahead of delivery time) AND retries (already due)
  * Any project without prepared results gets researched
+ * Projects run in a worker pool (MAX_CONCURRENT_RESEARCH_JOBS) and are
+ * cancelled after RESEARCH_JOB_TIMEOUT_MS
  */
 async function runResearchJob(): Promise<void> {
+  // The previous run is still working through its queue
+  if (researchJobInProgress) {
+    logger.debug("Research job still in progress, skipping");
+    return;
+  }
+  researchJobInProgress = true;
+
   try {
     const { db } = await import("core");
     const now = Date.now();
@@ -243,65 +408,23 @@ async function runResearchJob(): Promise<void> {
       windowMinutes: checkWindowMs / 60000,
     });
 
-    // Query all users
-    const usersSnapshot = await db.collection("users").get();
-    let projectsToRun: Array<{
+    // Query active projects due within the check window across all users:
+    // upcoming ones are pre-runs, already-due ones are retries
+    const dueProjects = await findActiveProjectsDueBy(prerunMaxTime, false);
+    const projectsToRun: Array<{
       userId: string;
       project: Project;
       isRetry: boolean;
     }> = [];
 
-    for (const userDoc of usersSnapshot.docs) {
-      const userId = userDoc.id;
-
-      // Query 1: Pre-run projects (upcoming within check window)
-      const prerunSnapshot = await db
-        .collection("users")
-        .doc(userId)
-        .collection("projects")
-        .where("status", "==", "active")
-        .where("nextRunAt", ">", now)
-        .where("nextRunAt", "<=", prerunMaxTime)
-        .get();
-
-      for (const projectDoc of prerunSnapshot.docs) {
-        const project = {
-          id: projectDoc.id,
-          ...projectDoc.data(),
-        } as Project;
-
-        // Only include if no prepared delivery log
-        if (!project.preparedDeliveryLogId) {
-          projectsToRun.push({ userId, project, isRetry: false });
-        }
-      }
-
-      // Query 2: Retry projects (already due but no prepared results)
-      const retrySnapshot = await db
-        .collection("users")
-        .doc(userId)
-        .collection("projects")
-        .where("status", "==", "active")
-        .where("nextRunAt", "<=", now)
-        .get();
-
-      for (const projectDoc of retrySnapshot.docs) {
-        const project = {
-          id: projectDoc.id,
-          ...projectDoc.data(),
-        } as Project;
-
-        // Only include if no prepared delivery log (missed pre-run)
-        if (!project.preparedDeliveryLogId) {
-          // Check if already in list from pre-run query to avoid duplicates
-          const alreadyQueued = projectsToRun.some(
-            (p) => p.project.id === project.id && p.userId === userId
-          );
-          if (!alreadyQueued) {
-            projectsToRun.push({ userId, project, isRetry: true });
-          }
-        }
-      }
+    // Only projects without a prepared delivery log (a due project without
+    // one missed its pre-run)
+    for (const { userId, project } of dueProjects) {
+      projectsToRun.push({
+        userId,
+        project,
+        isRetry: (project.nextRunAt || 0) <= now,
+      });
     }
 
     if (projectsToRun.length === 0) {
@@ -320,48 +443,131 @@ async function runResearchJob(): Promise<void> {
     // Import scheduling utility for retry projects
     const { calculateNextRunAt } = await import("core");
 
-    // Execute research for each project
-    for (const { userId, project, isRetry } of projectsToRun) {
+    const maxConcurrent = getMaxConcurrentResearchJobs();
+    const timeoutMs = getResearchJobTimeoutMs();
+
+    // Execute research with a bounded worker pool
+    await runWorkerPool(projectsToRun, maxConcurrent, async (item) => {
+      const { userId, isRetry } = item;
+
+      // Claim the project so no other scheduler instance (or overlapping
+      // tick) researches it; re-checks that it still needs research
+      const project = await acquireProjectLease(
+        userId,
+        item.project.id,
+        timeoutMs + LEASE_GRACE_MS,
+        (p) => p.status === "active" && !p.preparedDeliveryLogId
+      );
+      if (!project) {
+        logger.debug("Project claimed elsewhere or no longer due, skipping", {
+          userId,
+          projectId: item.project.id,
+        });
+        return;
+      }
+
+      // Cleared when a timed-out job doesn't stop: the lease is then left to
+      // expire (the project stays "running") and the recovery job takes over
+      let releaseLease = true;
+
       try {
         // Track retry attempts
         const retryAttempt = isRetry ? (project.lastError ? 2 : 1) : 0;
 
-        const deliveryLogId = await executeProjectResearch(
-          userId,
-          project,
-          isRetry ? "success" : "pending"
-        );
+        // Cancel research that exceeds the job timeout so a hung project
+        // doesn't hold a worker (and stay "running") indefinitely
+        let timeoutError: JobTimeoutError | undefined;
+        let outcome: ResearchOutcome;
+        try {
+          outcome = await runWithTimeout(
+            (signal) => executeProjectResearch(userId, project, signal),
+            timeoutMs
+          );
+        } catch (error) {
+          if (!(error instanceof JobTimeoutError)) {
+            throw error;
+          }
+          timeoutError = error;
+          outcome = { deliveryLogId: null };
+
+          logger.error("Research timed out", {
+            userId,
+            projectId: project.id,
+            timeoutMs,
+            isRetry,
+          });
+
+          // The aborted job may still be finishing an LLM or fetch call;
+          // keep the project running and the lease held until it stops
+          const stopped = await waitForSettled(
+            error.jobSettled,
+            timeoutMs,
+            LEASE_RENEW_INTERVAL_MS,
+            async () => {
+              await renewProjectLease(
+                userId,
+                project.id,
+                LEASE_RENEW_INTERVAL_MS + LEASE_GRACE_MS
+              );
+            }
+          );
+          if (!stopped) {
+            logger.error("Research still running after timeout", {
+              userId,
+              projectId: project.id,
+            });
+            releaseLease = false;
+            return;
+          }
+        }
+
+        const { deliveryLogId, budgetExceeded } = outcome;
+
+        if (budgetExceeded) {
+          // Paused for budget - a partial report is still delivered at the
+          // delivery time; the project resumes once the budget allows
+          await db
+            .collection("users")
+            .doc(userId)
+            .collection("projects")
+            .doc(project.id)
+            .update({
+              status: "budget_exceeded",
+              researchStartedAt: null,
+              lastError: null,
+              preparedDeliveryLogId: deliveryLogId,
+              updatedAt: Date.now(),
+            });
 
-        if (deliveryLogId) {
-          // Success - prepare project for delivery
+          await createAdminNotification(
+            userId,
+            project,
+            `Project paused: ${budgetExceeded.scope} monthly budget of $${budgetExceeded.limitUsd.toFixed(
+              2
+            )} used up ($${budgetExceeded.spentUsd.toFixed(2)} spent)`,
+            0,
+            "budget_exceeded",
+            "medium"
+          );
+        } else if (deliveryLogId) {
+          // Success - save the prepared delivery log for the delivery job.
+          // Retries are already due, so they go out on the next delivery run.
           const updates: any = {
             status: "active",
             researchStartedAt: null,
             lastError: null,
+            preparedDeliveryLogId: deliveryLogId,
             updatedAt: Date.now(),
           };
 
           if (isRetry) {
-            // For retry, update lastRunAt and nextRunAt immediately
-            updates.lastRunAt = Date.now();
-            updates.nextRunAt = calculateNextRunAt(
-              project.frequency,
-              project.deliveryTime,
-              project.timezone,
-              Date.now()
-            );
-
             logger.info("Retry research succeeded", {
               userId,
               projectId: project.id,
               deliveryLogId,
               retryAttempt,
-              nextRunAt: new Date(updates.nextRunAt).toISOString(),
             });
           } else {
-            // For pre-run, just save the prepared delivery log
-            updates.preparedDeliveryLogId = deliveryLogId;
-
             logger.info("Pre-run research completed", {
               userId,
               projectId: project.id,
@@ -388,7 +594,7 @@ async function runResearchJob(): Promise<void> {
             await createAdminNotification(
               userId,
               project,
-              project.lastError,
+              timeoutError?.message || project.lastError,
               2
             );
 
@@ -408,6 +614,7 @@ async function runResearchJob(): Promise<void> {
               .update({
                 status: "error",
                 researchStartedAt: null,
+                ...(timeoutError ? { lastError: timeoutError.message } : {}),
                 lastRunAt: Date.now(),
                 nextRunAt,
                 updatedAt: Date.now(),
@@ -428,6 +635,7 @@ async function runResearchJob(): Promise<void> {
               .update({
                 status: "active",
                 researchStartedAt: null,
+                ...(timeoutError ? { lastError: timeoutError.message } : {}),
                 updatedAt: Date.now(),
               });
           }
@@ -439,55 +647,225 @@ async function runResearchJob(): Promise<void> {
           isRetry,
           error: error.message,
         });
+      } finally {
+        if (releaseLease) {
+          await releaseProjectLease(userId, project.id);
+        }
       }
-    }
+    });
   } catch (error: any) {
     logger.error("Research job failed", {
       error: error.message,
       stack: error.stack,
     });
+  } finally {
+    researchJobInProgress = false;
   }
 }
 
 /**
- * Delivery Job
- * Check for projects ready to deliver (have preparedDeliveryLogId)
+ * Recovery Job
+ * Resets projects left "running" by a crashed worker. Projects whose
+ * research started longer ago than the job timeout (plus lease grace) are
+ * set back to active, rescheduled and reported to the admin.
  */
-async function runDeliveryJob(): Promise<void> {
+async function runRecoveryJob(): Promise<void> {
   try {
-    const { db } = await import("core");
+    const { db, calculateNextRunAt } = await import("core");
     const now = Date.now();
+    const staleBefore = now - (getResearchJobTimeoutMs() + LEASE_GRACE_MS);
 
-    logger.debug("Running delivery job");
+    const isStuck = (project: Project) =>
+      project.status === "running" &&
+      (project.researchStartedAt || project.updatedAt || 0) < staleBefore;
 
-    // Query all users
-    const usersSnapshot = await db.collection("users").get();
-    let projectsToDeliver: Array<{ userId: string; project: Project }> = [];
+    const stuckProjects = await findRunningProjectsStartedBefore(staleBefore);
 
-    for (const userDoc of usersSnapshot.docs) {
-      const userId = userDoc.id;
+    if (stuckProjects.length === 0) {
+      return;
+    }
 
-      // Query active projects where nextRunAt <= now AND preparedDeliveryLogId is not null
-      const projectsSnapshot = await db
-        .collection("users")
-        .doc(userId)
-        .collection("projects")
-        .where("status", "==", "active")
-        .where("nextRunAt", "<=", now)
-        .get();
-
-      for (const projectDoc of projectsSnapshot.docs) {
-        const project = {
-          id: projectDoc.id,
-          ...projectDoc.data(),
-        } as Project;
-
-        // Only include if has prepared delivery log
-        if (project.preparedDeliveryLogId) {
-          projectsToDeliver.push({ userId, project });
+    logger.warn(`Recovering ${stuckProjects.length} stuck projects`);
+
+    for (const item of stuckProjects) {
+      const { userId } = item;
+
+      // A live worker still holds the lease; an expired one means it crashed
+      const project = await acquireProjectLease(
+        userId,
+        item.project.id,
+        DELIVERY_LEASE_MS,
+        isStuck
+      );
+      if (!project) {
+        continue;
+      }
+
+      try {
+        const startedAt = project.researchStartedAt || project.updatedAt;
+        const errorMessage = `Research interrupted: project was still running ${Math.round(
+          (now - startedAt) / 60000
+        )} minutes after it started (worker crashed or was stopped)`;
+
+        const nextRunAt = calculateNextRunAt(
+          project.frequency,
+          project.deliveryTime,
+          project.timezone,
+          now
+        );
+
+        await db
+          .collection("users")
+          .doc(userId)
+          .collection("projects")
+          .doc(project.id)
+          .update({
+            status: "active",
+            researchStartedAt: null,
+            lastError: errorMessage,
+            nextRunAt,
+            updatedAt: Date.now(),
+          });
+
+        await createAdminNotification(
+          userId,
+          project,
+          errorMessage,
+          0,
+          "system_error"
+        );
+
+        logger.warn("Recovered stuck project", {
+          userId,
+          projectId: project.id,
+          researchStartedAt: new Date(startedAt).toISOString(),
+          nextRunAt: new Date(nextRunAt).toISOString(),
+        });
+      } catch (error: any) {
+        logger.error("Failed to recover stuck project", {
+          userId,
+          projectId: project.id,
+          error: error.message,
+        });
+      } finally {
+        await releaseProjectLease(userId, project.id);
+      }
+    }
+  } catch (error: any) {
+    logger.error("Recovery job failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+  }
+}
+
+/**
+ * Budget Resume Job
+ * Reactivates projects paused for budget once their budget allows runs
+ * again (a new month started or the budget was raised). Projects with a
+ * prepared report wait until it has been delivered.
+ */
+async function runBudgetResumeJob(): Promise<void> {
+  try {
+    const { db, calculateNextRunAt, getBudgetStatus, getRemainingBudgetUsd } =
+      await import("core");
+
+    const pausedProjects = await findBudgetExceededProjects({
+      prepared: false,
+    });
+
+    if (pausedProjects.length === 0) {
+      return;
+    }
+
+    const defaultUserBudgetUsd = getDefaultUserBudgetUsd();
+
+    for (const item of pausedProjects) {
+      const { userId } = item;
+
+      try {
+        const budget = await getBudgetStatus(
+          userId,
+          item.project,
+          defaultUserBudgetUsd
+        );
+        if (getRemainingBudgetUsd(budget) <= 0) {
+          continue;
+        }
+
+        const project = await acquireProjectLease(
+          userId,
+          item.project.id,
+          DELIVERY_LEASE_MS,
+          (p) => p.status === "budget_exceeded" && !p.preparedDeliveryLogId
+        );
+        if (!project) {
+          continue;
+        }
+
+        try {
+          // Resume at the next regular run instead of catching up at once
+          const nextRunAt = calculateNextRunAt(
+            project.frequency,
+            project.deliveryTime,
+            project.timezone,
+            Date.now()
+          );
+
+          await db
+            .collection("users")
+            .doc(userId)
+            .collection("projects")
+            .doc(project.id)
+            .update({
+              status: "active",
+              budgetExceededAt: null,
+              nextRunAt,
+              updatedAt: Date.now(),
+            });
+
+          logger.info("Resumed project paused for budget", {
+            userId,
+            projectId: project.id,
+            month: budget.month,
+            nextRunAt: new Date(nextRunAt).toISOString(),
+          });
+        } finally {
+          await releaseProjectLease(userId, project.id);
         }
+      } catch (error: any) {
+        logger.error("Failed to resume project paused for budget", {
+          userId,
+          projectId: item.project.id,
+          error: error.message,
+        });
       }
     }
+  } catch (error: any) {
+    logger.error("Budget resume job failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+  }
+}
+
+/**
+ * Delivery Job
+ * Check for projects ready to deliver (have preparedDeliveryLogId)
+ */
+async function runDeliveryJob(): Promise<void> {
+  try {
+    const { db } = await import("core");
+    const now = Date.now();
+
+    logger.debug("Running delivery job");
+
+    // Query active projects where nextRunAt <= now AND preparedDeliveryLogId is not null
+    // (projects paused for budget still deliver the report they prepared)
+    const projectsToDeliver = [
+      ...(await findActiveProjectsDueBy(now, true)),
+      ...(await findBudgetExceededProjects({ prepared: true, dueBy: now })),
+    ];
 
     if (projectsToDeliver.length === 0) {
       logger.debug("No projects ready for delivery");
@@ -496,25 +874,75 @@ async function runDeliveryJob(): Promise<void> {
 
     logger.info(`Delivering results for ${projectsToDeliver.length} projects`);
 
-    // Import scheduling utility
-    const { calculateNextRunAt } = await import("core");
+    // Import scheduling and delivery utilities
+    const { calculateNextRunAt, deliverPreparedReport } = await import("core");
+
+    // Deliver prepared reports and update projects
+    for (const item of projectsToDeliver) {
+      const { userId } = item;
+
+      // Claim the project so the report is only sent by one instance
+      const project = await acquireProjectLease(
+        userId,
+        item.project.id,
+        DELIVERY_LEASE_MS,
+        (p) =>
+          (p.status === "active" || p.status === "budget_exceeded") &&
+          !!p.preparedDeliveryLogId
+      );
+      if (!project) {
+        continue;
+      }
 
-    // Update delivery logs and projects
-    for (const { userId, project } of projectsToDeliver) {
       try {
-        // Update delivery log status from pending to success
-        await db
-          .collection("users")
-          .doc(userId)
-          .collection("projects")
-          .doc(project.id)
-          .collection("deliveryLogs")
-          .doc(project.preparedDeliveryLogId!)
-          .update({
-            status: "success",
-            deliveredAt: Date.now(),
+        // Make one delivery attempt (failed attempts are rescheduled on the
+        // delivery log until the channel's retry limit is reached)
+        const outcome = await deliverPreparedReport(
+          userId,
+          project.id,
+          project.preparedDeliveryLogId!
+        );
+
+        // Waiting for a scheduled retry - keep the prepared report
+        if (outcome.state === "not_due") {
+          continue;
+        }
+
+        if (outcome.state === "retrying") {
+          logger.warn("Report delivery failed, retry scheduled", {
+            userId,
+            projectId: project.id,
+            deliveryLogId: project.preparedDeliveryLogId,
+            destination: project.resultsDestination,
+            retryCount: outcome.retryCount,
+            nextRetryAt: new Date(outcome.nextRetryAt!).toISOString(),
+            error: outcome.result?.error,
+          });
+          continue;
+        }
+
+        if (outcome.state === "failed") {
+          const errorMessage =
+            outcome.result?.error || "Delivery failed after all retries";
+
+          logger.error("Report delivery failed permanently", {
+            userId,
+            projectId: project.id,
+            deliveryLogId: project.preparedDeliveryLogId,
+            destination: project.resultsDestination,
+            retryCount: outcome.retryCount,
+            error: errorMessage,
           });
 
+          await createAdminNotification(
+            userId,
+            project,
+            errorMessage,
+            outcome.retryCount,
+            "delivery_failure"
+          );
+        }
+
         // Calculate next run time
         const nextRunAt = calculateNextRunAt(
           project.frequency,
@@ -536,18 +964,22 @@ async function runDeliveryJob(): Promise<void> {
             updatedAt: Date.now(),
           });
 
-        logger.info("Results delivered successfully", {
-          userId,
-          projectId: project.id,
-          deliveryLogId: project.preparedDeliveryLogId,
-          nextRunAt: new Date(nextRunAt).toISOString(),
-        });
+        if (outcome.state === "delivered") {
+          logger.info("Results delivered successfully", {
+            userId,
+            projectId: project.id,
+            deliveryLogId: project.preparedDeliveryLogId,
+            nextRunAt: new Date(nextRunAt).toISOString(),
+          });
+        }
       } catch (error: any) {
         logger.error("Delivery failed", {
           userId,
           projectId: project.id,
           error: error.message,
         });
+      } finally {
+        await releaseProjectLease(userId, project.id);
       }
     }
   } catch (error: any) {
@@ -566,11 +998,20 @@ async function runSchedulerJob(): Promise<void> {
   const startTime = Date.now();
 
   try {
+    // Reset projects stuck in "running" before looking for work
+    await runRecoveryJob();
+
+    // Reactivate projects paused for budget that can run again
+    await runBudgetResumeJob();
+
     // Run both jobs in parallel
     // Research job handles both pre-runs and retries
-    // Delivery job handles marking prepared results as sent
+    // Delivery job handles sending prepared results
     await Promise.all([runResearchJob(), runDeliveryJob()]);
 
+    // Send admin notifications raised by this run (and any still pending)
+    await runNotificationDispatchJob();
+
     const duration = Date.now() - startTime;
     logger.info("Scheduler job completed", {
       durationMs: duration,
@@ -589,10 +1030,18 @@ async function runSchedulerJob(): Promise<void> {
 async function startScheduler(): Promise<void> {
   logger.info("Starting Research Scheduler Service");
 
+  // Resolve configured providers (LLM_PROVIDER / SEARCH_PROVIDER)
+  let providerSelection: ProviderSelection;
+  try {
+    providerSelection = await getProviderSelection();
+  } catch (error: any) {
+    logger.error("Invalid provider configuration", { error: error.message });
+    process.exit(1);
+  }
+
   // Validate required environment variables
   const requiredEnvVars = [
-    "OPENAI_API_KEY",
-    "BRAVE_SEARCH_API_KEY",
+    ...getProviderEnvVars(providerSelection),
     "FIREBASE_PROJECT_ID",
   ];
 
@@ -657,9 +1106,11 @@ async function startScheduler(): Promise<void> {
       10
     ),
     timezone: process.env.SCHEDULER_TIMEZONE || "UTC",
+    maxConcurrentResearchJobs: getMaxConcurrentResearchJobs(),
+    researchJobTimeoutMs: getResearchJobTimeoutMs(),
     providers: {
-      llm: "OpenAI",
-      search: "Brave Search",
+      llm: describeLLMConfig(providerSelection.llm),
+      search: providerSelection.search.provider,
     },
   });
 
@@ -0,0 +1,168 @@
+/**
+ * Project leases
+ *
+ * Lets multiple scheduler instances (or overlapping cron ticks) share the
+ * same projects without running them twice. A worker claims a project by
+ * writing its owner id and an expiry onto the project document inside a
+ * Firestore transaction; leases left behind by crashed workers expire and
+ * can be reclaimed.
+ */
+
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { logger } from "./logger";
+import type { Project } from "core";
+
+// Unique id for this scheduler process
+const instanceId =
+  process.env.SCHEDULER_INSTANCE_ID ||
+  `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+/**
+ * Get the lease owner id of this scheduler instance
+ */
+export function getSchedulerInstanceId(): string {
+  return instanceId;
+}
+
+/**
+ * Get the Firestore reference for a project
+ */
+function getProjectRef(db: any, userId: string, projectId: string): any {
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("projects")
+    .doc(projectId);
+}
+
+/**
+ * Claim a project for this instance
+ *
+ * Succeeds if the project has no lease, its lease has expired, or this
+ * instance already holds it, and the freshly read project still passes
+ * `isEligible` (queries can be stale by the time the claim runs).
+ * Returns the project as read inside the transaction, or null if the
+ * project could not be claimed (including when the transaction fails).
+ */
+export async function acquireProjectLease(
+  userId: string,
+  projectId: string,
+  leaseMs: number,
+  isEligible: (project: Project) => boolean = () => true
+): Promise<Project | null> {
+  try {
+    const { db } = await import("core");
+    const projectRef = getProjectRef(db, userId, projectId);
+
+    return await db.runTransaction(async (transaction: any) => {
+      const projectDoc = await transaction.get(projectRef);
+      if (!projectDoc.exists) {
+        return null;
+      }
+
+      const project = { id: projectDoc.id, ...projectDoc.data() } as Project;
+      const now = Date.now();
+
+      const heldByOther =
+        project.leaseOwner &&
+        project.leaseOwner !== instanceId &&
+        (project.leaseExpiresAt || 0) > now;
+
+      if (heldByOther || !isEligible(project)) {
+        return null;
+      }
+
+      if (project.leaseOwner && project.leaseOwner !== instanceId) {
+        logger.warn("Reclaiming expired project lease", {
+          userId,
+          projectId,
+          previousOwner: project.leaseOwner,
+          expiredAt: new Date(project.leaseExpiresAt || 0).toISOString(),
+        });
+      }
+
+      const leaseExpiresAt = now + leaseMs;
+      transaction.update(projectRef, {
+        leaseOwner: instanceId,
+        leaseExpiresAt,
+      });
+
+      return { ...project, leaseOwner: instanceId, leaseExpiresAt };
+    });
+  } catch (error: any) {
+    logger.error("Failed to acquire project lease", {
+      userId,
+      projectId,
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Extend a project lease held by this instance (e.g. while waiting for a
+ * timed-out job to stop)
+ * Returns false if the lease was lost to another instance or the renewal
+ * failed
+ */
+export async function renewProjectLease(
+  userId: string,
+  projectId: string,
+  leaseMs: number
+): Promise<boolean> {
+  try {
+    const { db } = await import("core");
+    const projectRef = getProjectRef(db, userId, projectId);
+
+    return await db.runTransaction(async (transaction: any) => {
+      const projectDoc = await transaction.get(projectRef);
+      if (!projectDoc.exists || projectDoc.data()?.leaseOwner !== instanceId) {
+        return false;
+      }
+
+      transaction.update(projectRef, { leaseExpiresAt: Date.now() + leaseMs });
+      return true;
+    });
+  } catch (error: any) {
+    logger.error("Failed to renew project lease", {
+      userId,
+      projectId,
+      error: error.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Release a project lease held by this instance
+ * Leases taken over by another instance are left untouched
+ */
+export async function releaseProjectLease(
+  userId: string,
+  projectId: string
+): Promise<void> {
+  try {
+    const { db } = await import("core");
+    const projectRef = getProjectRef(db, userId, projectId);
+
+    await db.runTransaction(async (transaction: any) => {
+      const projectDoc = await transaction.get(projectRef);
+      if (!projectDoc.exists || projectDoc.data()?.leaseOwner !== instanceId) {
+        return;
+      }
+
+      transaction.update(projectRef, {
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      });
+    });
+  } catch (error: any) {
+    // The lease expires on its own
+    logger.error("Failed to release project lease", {
+      userId,
+      projectId,
+      error: error.message,
+    });
+  }
+}
@@ -0,0 +1,572 @@
+/**
+ * Admin Notification Dispatcher
+ *
+ * Sends pending adminNotifications to the admin email (ADMIN_ERROR_EMAIL)
+ * and/or webhook (ADMIN_WEBHOOK_URL):
+ * - Pending notifications are batched into one message per severity
+ * - Repeated failures of the same type for the same project are collapsed
+ *   into a single entry
+ * - Low-severity items are held during quiet hours and sent as a periodic
+ *   digest
+ * - Failed sends stay pending and are retried with backoff; after
+ *   MAX_DISPATCH_ATTEMPTS they are marked failed
+ * - A project that keeps failing the same way is alerted at most once per
+ *   de-duplication window (later occurrences are marked suppressed)
+ */
+
+import { logger } from "./logger";
+import type {
+  AdminNotification,
+  NotificationSeverity,
+  NotificationType,
+} from "core";
+
+// Severities in send order
+const SEVERITY_ORDER: NotificationSeverity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+];
+
+// Firestore limits
+const MAX_NOTIFICATIONS_PER_RUN = 500;
+const MAX_WRITES_PER_BATCH = 500;
+
+// Send retries (doubling delay, capped)
+const MAX_DISPATCH_ATTEMPTS = 10;
+const DISPATCH_RETRY_BASE_DELAY_MS = 60 * 1000;
+const DISPATCH_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Recently sent notifications checked for de-duplication
+const MAX_RECENT_NOTIFICATIONS = 1000;
+
+/**
+ * Dispatcher configuration (from environment variables)
+ */
+interface DispatcherConfig {
+  email?: string;
+  webhookUrl?: string;
+  quietHours?: { start: number; end: number }; // Minutes since midnight
+  timezone: string;
+  digestIntervalMs: number; // 0 sends low-severity items immediately
+  dedupWindowMs: number; // 0 alerts on every occurrence
+}
+
+/**
+ * Notifications of the same type for the same project
+ */
+interface NotificationGroup {
+  type: NotificationType;
+  severity: NotificationSeverity;
+  latest: AdminNotification; // Most recent occurrence
+  notifications: AdminNotification[];
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+function parseTimeOfDay(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Read dispatcher configuration from environment variables
+ */
+function getDispatcherConfig(): DispatcherConfig {
+  let quietHours: DispatcherConfig["quietHours"];
+
+  // Format: "HH:MM-HH:MM" (may span midnight, e.g. "22:00-07:00")
+  const quietHoursValue = process.env.ADMIN_NOTIFY_QUIET_HOURS;
+  if (quietHoursValue) {
+    const [startValue, endValue] = quietHoursValue.split("-");
+    const start = startValue ? parseTimeOfDay(startValue) : null;
+    const end = endValue ? parseTimeOfDay(endValue) : null;
+
+    if (start === null || end === null) {
+      logger.warn("Ignoring invalid ADMIN_NOTIFY_QUIET_HOURS", {
+        value: quietHoursValue,
+      });
+    } else {
+      quietHours = { start, end };
+    }
+  }
+
+  return {
+    email: process.env.ADMIN_ERROR_EMAIL || undefined,
+    webhookUrl: process.env.ADMIN_WEBHOOK_URL || undefined,
+    quietHours,
+    timezone:
+      process.env.ADMIN_NOTIFY_TIMEZONE ||
+      process.env.SCHEDULER_TIMEZONE ||
+      "UTC",
+    digestIntervalMs:
+      parseInt(process.env.ADMIN_NOTIFY_DIGEST_MINUTES || "60", 10) * 60 * 1000,
+    dedupWindowMs:
+      parseInt(process.env.ADMIN_NOTIFY_DEDUP_MINUTES || "360", 10) * 60 * 1000,
+  };
+}
+
+/**
+ * Check if a timestamp falls within quiet hours
+ */
+function isQuietTime(timestamp: number, config: DispatcherConfig): boolean {
+  if (!config.quietHours) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: config.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(timestamp));
+  const hours = Number(parts.find((p) => p.type === "hour")?.value);
+  const minutes = Number(parts.find((p) => p.type === "minute")?.value);
+  const current = hours * 60 + minutes;
+
+  const { start, end } = config.quietHours;
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end; // Spans midnight
+}
+
+/**
+ * Key of notifications that describe the same problem
+ */
+function getGroupKey(notification: AdminNotification): string {
+  return `${notification.type}:${notification.userId}:${notification.projectId}`;
+}
+
+/**
+ * Collapse notifications of the same type for the same project
+ */
+function groupNotifications(
+  notifications: AdminNotification[]
+): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = getGroupKey(notification);
+    const group = groups.get(key);
+
+    if (!group) {
+      groups.set(key, {
+        type: notification.type,
+        severity: notification.severity,
+        latest: notification,
+        notifications: [notification],
+      });
+      continue;
+    }
+
+    group.notifications.push(notification);
+    if (notification.occurredAt > group.latest.occurredAt) {
+      group.latest = notification;
+    }
+    // A group is as severe as its most severe occurrence
+    if (
+      SEVERITY_ORDER.indexOf(notification.severity) <
+      SEVERITY_ORDER.indexOf(group.severity)
+    ) {
+      group.severity = notification.severity;
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Format a batch of notification groups as a markdown message
+ */
+function formatBatchMessage(
+  severity: NotificationSeverity,
+  groups: NotificationGroup[],
+  isDigest: boolean
+): { subject: string; markdown: string } {
+  const total = groups.reduce((sum, g) => sum + g.notifications.length, 0);
+  const label = severity.toUpperCase();
+  const subject = isDigest
+    ? `[RelevX ${label}] Notification digest (${total})`
+    : `[RelevX ${label}] ${total} admin notification${total === 1 ? "" : "s"}`;
+
+  const lines = groups.map((group) => {
+    const { latest } = group;
+    const occurrences =
+      group.notifications.length > 1
+        ? ` (x${group.notifications.length}, last at ${new Date(
+            latest.occurredAt
+          ).toISOString()})`
+        : ` (at ${new Date(latest.occurredAt).toISOString()})`;
+
+    return (
+      `- **${group.type}** - "${latest.projectTitle}" ` +
+      `(project ${latest.projectId}, user ${latest.userId}, ` +
+      `retries ${latest.retryCount})${occurrences}: ${latest.errorMessage}`
+    );
+  });
+
+  return {
+    subject,
+    markdown: `**${subject}**\n\n${lines.join("\n")}\n`,
+  };
+}
+
+/**
+ * Post a batch to the admin webhook
+ * The "text" field makes the payload usable with Slack-style incoming webhooks
+ */
+async function postToWebhook(
+  webhookUrl: string,
+  severity: NotificationSeverity,
+  groups: NotificationGroup[],
+  text: string
+): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text,
+      severity,
+      notifications: groups.map((group) => ({
+        id: group.latest.id,
+        type: group.type,
+        severity: group.severity,
+        projectId: group.latest.projectId,
+        userId: group.latest.userId,
+        projectTitle: group.latest.projectTitle,
+        errorMessage: group.latest.errorMessage,
+        retryCount: group.latest.retryCount,
+        occurredAt: group.latest.occurredAt,
+        occurrences: group.notifications.length,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Admin webhook error (${response.status}): ${errorText}`);
+  }
+}
+
+/**
+ * Send a batch to every configured target
+ * Succeeds if at least one target accepted it
+ */
+async function sendBatch(
+  config: DispatcherConfig,
+  severity: NotificationSeverity,
+  groups: NotificationGroup[],
+  isDigest: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const { sendAdminEmail } = await import("core");
+  const { subject, markdown } = formatBatchMessage(severity, groups, isDigest);
+  const errors: string[] = [];
+  let delivered = false;
+
+  if (config.email) {
+    const result = await sendAdminEmail(config.email, subject, markdown);
+    if (result.success) {
+      delivered = true;
+    } else {
+      errors.push(`email: ${result.error?.message || String(result.error)}`);
+    }
+  }
+
+  if (config.webhookUrl) {
+    try {
+      await postToWebhook(config.webhookUrl, severity, groups, markdown);
+      delivered = true;
+    } catch (error: any) {
+      errors.push(`webhook: ${error.message}`);
+    }
+  }
+
+  return delivered
+    ? { success: true }
+    : { success: false, error: errors.join("; ") };
+}
+
+/**
+ * Delay before the next send attempt after a failed one
+ */
+function getDispatchRetryDelayMs(attempts: number): number {
+  return Math.min(
+    DISPATCH_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+    DISPATCH_RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * Apply notification updates in batched writes
+ */
+async function writeUpdates(
+  updates: Array<{ id: string; data: Record<string, unknown> }>
+): Promise<void> {
+  const { db } = await import("core");
+  const collection = db.collection("adminNotifications");
+
+  for (let i = 0; i < updates.length; i += MAX_WRITES_PER_BATCH) {
+    const batch = db.batch();
+    for (const { id, data } of updates.slice(i, i + MAX_WRITES_PER_BATCH)) {
+      batch.update(collection.doc(id), data);
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Record the outcome on every notification in the batch
+ * Failed sends stay pending until the next attempt is due, or are marked
+ * failed after the last attempt
+ */
+async function markBatch(
+  groups: NotificationGroup[],
+  outcome: { success: boolean; error?: string },
+  notifiedAt: number
+): Promise<void> {
+  const updates = groups.flatMap((group) =>
+    group.notifications.map((notification) => {
+      const duplicateOf =
+        notification.id === group.latest.id ? null : group.latest.id;
+
+      if (outcome.success) {
+        return {
+          id: notification.id,
+          data: {
+            status: "sent",
+            notifiedAt,
+            dispatchError: null,
+            nextAttemptAt: null,
+            duplicateOf,
+          },
+        };
+      }
+
+      const attempts = (notification.dispatchAttempts || 0) + 1;
+      const giveUp = attempts >= MAX_DISPATCH_ATTEMPTS;
+      return {
+        id: notification.id,
+        data: {
+          status: giveUp ? "failed" : "pending",
+          dispatchAttempts: attempts,
+          nextAttemptAt: giveUp
+            ? null
+            : notifiedAt + getDispatchRetryDelayMs(attempts),
+          dispatchError: outcome.error || null,
+        },
+      };
+    })
+  );
+
+  await writeUpdates(updates);
+}
+
+/**
+ * Mark groups as suppressed because the same problem was recently alerted
+ */
+async function markSuppressed(
+  groups: NotificationGroup[],
+  recentlySent: Map<string, AdminNotification>,
+  suppressedAt: number
+): Promise<void> {
+  const updates = groups.flatMap((group) =>
+    group.notifications.map((notification) => ({
+      id: notification.id,
+      data: {
+        status: "suppressed",
+        suppressedAt,
+        nextAttemptAt: null,
+        duplicateOf: recentlySent.get(getGroupKey(notification))!.id,
+      },
+    }))
+  );
+
+  await writeUpdates(updates);
+}
+
+/**
+ * Load pending notifications that are due, most severe first, so held
+ * low-severity items can't crowd out urgent ones. Within a severity, new
+ * notifications (nextAttemptAt 0) come first, oldest first, then retries
+ * by due time; retries still backing off are not loaded.
+ */
+async function loadPendingNotifications(
+  now: number
+): Promise<AdminNotification[]> {
+  const { db } = await import("core");
+  const notifications: AdminNotification[] = [];
+
+  for (const severity of SEVERITY_ORDER) {
+    const remaining = MAX_NOTIFICATIONS_PER_RUN - notifications.length;
+    if (remaining <= 0) {
+      break;
+    }
+
+    const snapshot = await db
+      .collection("adminNotifications")
+      .where("status", "==", "pending")
+      .where("severity", "==", severity)
+      .where("nextAttemptAt", "<=", now)
+      .orderBy("nextAttemptAt", "asc")
+      .orderBy("occurredAt", "asc")
+      .limit(remaining)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      notifications.push({ id: doc.id, ...doc.data() } as AdminNotification);
+    }
+  }
+
+  return notifications;
+}
+
+/**
+ * Load notifications sent within the de-duplication window, by group key
+ * (the group's representative, i.e. not a duplicate, is kept)
+ */
+async function loadRecentlySent(
+  config: DispatcherConfig,
+  now: number
+): Promise<Map<string, AdminNotification>> {
+  const recentlySent = new Map<string, AdminNotification>();
+  if (config.dedupWindowMs <= 0) {
+    return recentlySent;
+  }
+
+  const { db } = await import("core");
+  const snapshot = await db
+    .collection("adminNotifications")
+    .where("status", "==", "sent")
+    .where("notifiedAt", ">=", now - config.dedupWindowMs)
+    .orderBy("notifiedAt", "desc")
+    .limit(MAX_RECENT_NOTIFICATIONS)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    const notification = { id: doc.id, ...doc.data() } as AdminNotification;
+    const key = getGroupKey(notification);
+    if (!recentlySent.has(key) && !notification.duplicateOf) {
+      recentlySent.set(key, notification);
+    }
+  }
+
+  return recentlySent;
+}
+
+/**
+ * Check whether a group repeats a recently sent alert that was at least as
+ * severe (escalations are always sent)
+ */
+function isRecentlyAlerted(
+  group: NotificationGroup,
+  recentlySent: Map<string, AdminNotification>
+): boolean {
+  const recent = recentlySent.get(getGroupKey(group.latest));
+  return (
+    !!recent &&
+    SEVERITY_ORDER.indexOf(recent.severity) <=
+      SEVERITY_ORDER.indexOf(group.severity)
+  );
+}
+
+/**
+ * Notification Dispatch Job
+ * Sends pending admin notifications batched by severity
+ */
+export async function runNotificationDispatchJob(): Promise<void> {
+  try {
+    const config = getDispatcherConfig();
+
+    if (!config.email && !config.webhookUrl) {
+      logger.debug(
+        "No admin notification target configured, skipping dispatch"
+      );
+      return;
+    }
+
+    const now = Date.now();
+
+    const notifications = await loadPendingNotifications(now);
+
+    if (notifications.length === 0) {
+      logger.debug("No pending admin notifications");
+      return;
+    }
+
+    const recentlySent = await loadRecentlySent(config, now);
+    const groups = groupNotifications(notifications);
+
+    // Problems alerted within the de-duplication window are not sent again
+    const suppressed = groups.filter((group) =>
+      isRecentlyAlerted(group, recentlySent)
+    );
+    if (suppressed.length > 0) {
+      await markSuppressed(suppressed, recentlySent, now);
+      logger.info("Suppressed repeated admin notifications", {
+        entries: suppressed.length,
+      });
+    }
+
+    for (const severity of SEVERITY_ORDER) {
+      const batch = groups.filter(
+        (group) => group.severity === severity && !suppressed.includes(group)
+      );
+      if (batch.length === 0) {
+        continue;
+      }
+
+      const isDigest = severity === "low" && config.digestIntervalMs > 0;
+
+      if (severity === "low") {
+        // Hold low-severity items during quiet hours
+        if (isQuietTime(now, config)) {
+          logger.debug("Quiet hours, holding low-severity notifications", {
+            count: batch.length,
+          });
+          continue;
+        }
+
+        // Digest mode: wait until the oldest item has waited a full interval
+        const oldest = Math.min(
+          ...batch.flatMap((g) => g.notifications.map((n) => n.occurredAt))
+        );
+        if (isDigest && now - oldest < config.digestIntervalMs) {
+          continue;
+        }
+      }
+
+      const outcome = await sendBatch(config, severity, batch, isDigest);
+      await markBatch(batch, outcome, now);
+
+      const count = batch.reduce((sum, g) => sum + g.notifications.length, 0);
+      if (outcome.success) {
+        logger.info("Admin notifications sent", {
+          severity,
+          notifications: count,
+          entries: batch.length,
+        });
+      } else {
+        logger.error("Failed to send admin notifications", {
+          severity,
+          notifications: count,
+          error: outcome.error,
+        });
+      }
+    }
+  } catch (error: any) {
+    logger.error("Notification dispatch job failed", {
+      error: error.message,
+      stack: error.stack,
+    });
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Scheduler project queries
+ *
+ * Finds projects across all users with collection-group queries on
+ * users/{userId}/projects, so the cost of a scheduler tick grows with the
+ * number of due projects rather than the number of users. Results are read
+ * in pages, up to a per-tick maximum of eligible projects (queries are
+ * ordered so the longest waiting projects come first; the rest are picked
+ * up on the next tick). Conditions Firestore can't query - e.g. on
+ * preparedDeliveryLogId, which is missing rather than null on most
+ * projects - are checked while paging, so ineligible projects don't count
+ * towards the maximum.
+ * The composite indexes these queries need are declared in
+ * firestore.indexes.json.
+ */
+
+import { logger } from "./logger";
+import type { Project } from "core";
+
+/**
+ * A project together with its owner
+ */
+export interface ScheduledProject {
+  userId: string;
+  project: Project;
+}
+
+/**
+ * Get query page size (default: 500)
+ */
+function getPageSize(): number {
+  return Math.max(
+    1,
+    parseInt(process.env.SCHEDULER_QUERY_PAGE_SIZE || "500", 10) || 500
+  );
+}
+
+/**
+ * Get the maximum number of projects one query returns per tick
+ * (default: 2000)
+ */
+function getMaxProjectsPerTick(): number {
+  return Math.max(
+    1,
+    parseInt(process.env.SCHEDULER_MAX_PROJECTS_PER_TICK || "2000", 10) || 2000
+  );
+}
+
+/**
+ * Read the documents matching an ordered query, one page at a time, until
+ * the per-tick maximum of eligible projects is reached
+ */
+async function readPages(
+  query: any,
+  isEligible: (project: Project) => boolean = () => true
+): Promise<ScheduledProject[]> {
+  const pageSize = getPageSize();
+  const maxProjects = getMaxProjectsPerTick();
+  const projects: ScheduledProject[] = [];
+  let lastDoc: any = null;
+
+  while (true) {
+    const pageQuery = lastDoc
+      ? query.startAfter(lastDoc).limit(pageSize)
+      : query.limit(pageSize);
+    const snapshot = await pageQuery.get();
+
+    for (const projectDoc of snapshot.docs) {
+      // users/{userId}/projects/{projectId}
+      const userId = projectDoc.ref.parent.parent?.id;
+      if (!userId) {
+        continue;
+      }
+
+      const project = { id: projectDoc.id, ...projectDoc.data() } as Project;
+      if (isEligible(project)) {
+        projects.push({ userId, project });
+      }
+      if (projects.length >= maxProjects) {
+        logger.warn("Project query reached the per-tick maximum", {
+          maxProjects,
+        });
+        return projects;
+      }
+    }
+
+    if (snapshot.docs.length < pageSize) {
+      return projects;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Check whether a project has (prepared: true) or lacks (prepared: false)
+ * a prepared delivery log
+ */
+function hasPreparedDelivery(prepared: boolean) {
+  return (project: Project) => !!project.preparedDeliveryLogId === prepared;
+}
+
+/**
+ * Find active projects scheduled to run at or before a time
+ * (covers both overdue projects and upcoming pre-runs), either those with
+ * a prepared report (ready to deliver) or those without one (need research)
+ * Index: projects (status ASC, nextRunAt ASC), collection group scope
+ */
+export async function findActiveProjectsDueBy(
+  maxNextRunAt: number,
+  prepared: boolean
+): Promise<ScheduledProject[]> {
+  const { db } = await import("core");
+
+  return readPages(
+    db
+      .collectionGroup("projects")
+      .where("status", "==", "active")
+      .where("nextRunAt", "<=", maxNextRunAt)
+      .orderBy("nextRunAt"),
+    hasPreparedDelivery(prepared)
+  );
+}
+
+/**
+ * Find projects paused for budget, either those with a prepared report due
+ * by a time (ready to deliver) or those without one (to check for resuming)
+ * Index: projects (status ASC, nextRunAt ASC), collection group scope
+ */
+export async function findBudgetExceededProjects(
+  options: { prepared: false } | { prepared: true; dueBy: number }
+): Promise<ScheduledProject[]> {
+  const { db } = await import("core");
+  const query = db
+    .collectionGroup("projects")
+    .where("status", "==", "budget_exceeded");
+
+  return readPages(
+    options.prepared
+      ? query.where("nextRunAt", "<=", options.dueBy).orderBy("nextRunAt")
+      : query.orderBy("nextRunAt"),
+    hasPreparedDelivery(options.prepared)
+  );
+}
+
+/**
+ * Find running projects whose research started before a time
+ * Projects without researchStartedAt (set to running before it was
+ * recorded) are found by updatedAt instead.
+ * Indexes: projects (status ASC, researchStartedAt ASC) and
+ * (status ASC, updatedAt ASC), collection group scope
+ */
+export async function findRunningProjectsStartedBefore(
+  startedBefore: number
+): Promise<ScheduledProject[]> {
+  const { db } = await import("core");
+  const running = db
+    .collectionGroup("projects")
+    .where("status", "==", "running");
+
+  const started = await readPages(
+    running
+      .where("researchStartedAt", "<", startedBefore)
+      .orderBy("researchStartedAt")
+  );
+  const unknownStart = await readPages(
+    running.where("updatedAt", "<", startedBefore).orderBy("updatedAt"),
+    (project) => !project.researchStartedAt
+  );
+
+  return [...started, ...unknownStart];
+}
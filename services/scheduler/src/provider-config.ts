@@ -0,0 +1,184 @@
+/**
+ * Provider selection
+ *
+ * Chooses the LLM and search providers from environment configuration.
+ * The LLM setup is a hybrid config with a provider/model per research task:
+ * - LLM_CONFIG: inline JSON (see HybridLLMConfig in core)
+ * - LLM_CONFIG_FILE: path to a JSON file with the same shape
+ * - otherwise LLM_PROVIDER / LLM_MODEL for every task
+ * The search provider comes from SEARCH_PROVIDER. Each provider reads its
+ * API key from its own environment variable.
+ */
+
+import * as fs from "fs";
+import type {
+  HybridLLMConfig,
+  LLMProviderType,
+  LLMTask,
+  SearchProviderType,
+} from "core";
+
+/**
+ * API key environment variable for each supported LLM provider
+ */
+const LLM_API_KEY_ENV_VARS: Partial<Record<LLMProviderType, string>> = {
+  openai: "OPENAI_API_KEY",
+  gemini: "GOOGLE_GENERATIVE_AI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  local: "LOCAL_LLM_API_KEY",
+};
+
+/**
+ * LLM providers whose API key is optional (self-hosted servers)
+ */
+const OPTIONAL_KEY_LLM_PROVIDERS: LLMProviderType[] = ["local"];
+
+/**
+ * API key environment variable for each supported search provider
+ */
+const SEARCH_API_KEY_ENV_VARS: Partial<Record<SearchProviderType, string>> = {
+  brave: "BRAVE_SEARCH_API_KEY",
+  google: "GOOGLE_SEARCH_API_KEY",
+  bing: "BING_SEARCH_API_KEY",
+};
+
+/**
+ * Other environment variables a search provider requires
+ */
+const SEARCH_REQUIRED_ENV_VARS: Partial<Record<SearchProviderType, string[]>> =
+  {
+    google: ["GOOGLE_SEARCH_ENGINE_ID"],
+  };
+
+const LLM_TASKS: LLMTask[] = ["query", "filter", "analysis", "report"];
+
+/**
+ * Providers selected by environment configuration
+ */
+export interface ProviderSelection {
+  llm: HybridLLMConfig;
+  search: {
+    provider: SearchProviderType;
+    apiKeyEnvVar: string;
+  };
+}
+
+/**
+ * Read the hybrid LLM config from the environment
+ */
+async function getLLMConfig(): Promise<HybridLLMConfig> {
+  const { parseHybridLLMConfig } = await import("core");
+
+  if (process.env.LLM_CONFIG) {
+    return parseHybridLLMConfig(process.env.LLM_CONFIG);
+  }
+  if (process.env.LLM_CONFIG_FILE) {
+    return parseHybridLLMConfig(
+      fs.readFileSync(process.env.LLM_CONFIG_FILE, "utf-8")
+    );
+  }
+
+  return {
+    default: {
+      provider: (process.env.LLM_PROVIDER || "openai") as LLMProviderType,
+      model: process.env.LLM_MODEL || undefined,
+    },
+  };
+}
+
+/**
+ * Read the provider selection from the environment
+ * Defaults to OpenAI and Brave Search; throws on an unsupported provider
+ */
+export async function getProviderSelection(): Promise<ProviderSelection> {
+  const llm = await getLLMConfig();
+  const searchProvider = (process.env.SEARCH_PROVIDER ||
+    "brave") as SearchProviderType;
+
+  for (const task of LLM_TASKS) {
+    const provider = (llm[task] || llm.default).provider;
+    if (!LLM_API_KEY_ENV_VARS[provider]) {
+      throw new Error(
+        `Unsupported LLM provider "${provider}" for ${task} (supported: ${Object.keys(
+          LLM_API_KEY_ENV_VARS
+        ).join(", ")})`
+      );
+    }
+  }
+
+  const searchApiKeyEnvVar = SEARCH_API_KEY_ENV_VARS[searchProvider];
+  if (!searchApiKeyEnvVar) {
+    throw new Error(
+      `Unsupported SEARCH_PROVIDER "${searchProvider}" (supported: ${Object.keys(
+        SEARCH_API_KEY_ENV_VARS
+      ).join(", ")})`
+    );
+  }
+
+  return {
+    llm,
+    search: {
+      provider: searchProvider,
+      apiKeyEnvVar: searchApiKeyEnvVar,
+    },
+  };
+}
+
+/**
+ * Get the API key environment variables a provider selection needs
+ * (LLM tasks with an inline apiKey in the config need none)
+ */
+export function getProviderEnvVars(selection: ProviderSelection): string[] {
+  const envVars = new Set<string>();
+
+  for (const task of LLM_TASKS) {
+    const taskConfig = selection.llm[task] || selection.llm.default;
+    const envVar = LLM_API_KEY_ENV_VARS[taskConfig.provider];
+    if (
+      envVar &&
+      !taskConfig.apiKey &&
+      !OPTIONAL_KEY_LLM_PROVIDERS.includes(taskConfig.provider)
+    ) {
+      envVars.add(envVar);
+    }
+  }
+  envVars.add(selection.search.apiKeyEnvVar);
+  for (const envVar of SEARCH_REQUIRED_ENV_VARS[selection.search.provider] ||
+    []) {
+    envVars.add(envVar);
+  }
+
+  return [...envVars];
+}
+
+/**
+ * Get LLM API keys from the environment, by provider
+ */
+export function getLLMApiKeys(): Partial<Record<LLMProviderType, string>> {
+  const apiKeys: Partial<Record<LLMProviderType, string>> = {};
+
+  for (const [provider, envVar] of Object.entries(LLM_API_KEY_ENV_VARS)) {
+    if (envVar && process.env[envVar]) {
+      apiKeys[provider as LLMProviderType] = process.env[envVar];
+    }
+  }
+
+  return apiKeys;
+}
+
+/**
+ * Describe the provider/model used for each LLM task (for logging)
+ */
+export function describeLLMConfig(
+  config: HybridLLMConfig
+): Record<LLMTask, string> {
+  const description = {} as Record<LLMTask, string>;
+
+  for (const task of LLM_TASKS) {
+    const taskConfig = config[task] || config.default;
+    description[task] =
+      `${taskConfig.provider}/${taskConfig.model || "default"}`;
+  }
+
+  return description;
+}
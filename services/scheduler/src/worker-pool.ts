@@ -0,0 +1,110 @@
+/**
+ * Worker pool utilities for scheduler jobs
+ *
+ * Runs jobs with a concurrency limit and a per-job timeout so a single
+ * hung job cannot block the rest of the queue.
+ */
+
+/**
+ * Error raised when a job exceeds its timeout
+ * `jobSettled` resolves once the aborted job has actually stopped (it may
+ * still be finishing an in-flight request when the timeout fires)
+ */
+export class JobTimeoutError extends Error {
+  constructor(
+    public readonly timeoutMs: number,
+    public readonly jobSettled: Promise<void> = Promise.resolve()
+  ) {
+    super(`Research job timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "JobTimeoutError";
+  }
+}
+
+/**
+ * Run a cancellable job with a timeout
+ *
+ * The job receives an AbortSignal that is aborted (with a JobTimeoutError
+ * as the reason) when the timeout elapses. The returned promise rejects
+ * with JobTimeoutError at that point even if the job has not yet stopped;
+ * wait for the error's `jobSettled` before releasing what the job holds.
+ */
+export async function runWithTimeout<T>(
+  job: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | undefined;
+
+  const jobPromise = job(controller.signal);
+  const jobSettled = Promise.allSettled([jobPromise]).then(() => undefined);
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new JobTimeoutError(timeoutMs, jobSettled);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([jobPromise, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Wait for a promise to settle, for at most `maxWaitMs`
+ * Calls `onTick` every `tickMs` while waiting (e.g. to renew a lease).
+ * Returns whether the promise settled in time.
+ */
+export async function waitForSettled(
+  promise: Promise<unknown>,
+  maxWaitMs: number,
+  tickMs: number,
+  onTick: () => Promise<void>
+): Promise<boolean> {
+  const settled = Promise.allSettled([promise]).then(() => true);
+  const deadline = Date.now() + maxWaitMs;
+
+  while (Date.now() < deadline) {
+    let timeoutId: NodeJS.Timeout | undefined;
+    const tick = new Promise<boolean>((resolve) => {
+      timeoutId = setTimeout(
+        () => resolve(false),
+        Math.min(tickMs, deadline - Date.now())
+      );
+    });
+
+    const done = await Promise.race([settled, tick]);
+    clearTimeout(timeoutId);
+    if (done) {
+      return true;
+    }
+    await onTick();
+  }
+
+  return false;
+}
+
+/**
+ * Process items with at most `concurrency` workers running at once
+ * Worker errors are not caught here; workers should handle their own
+ */
+export async function runWorkerPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const queue = [...items];
+  const workerCount = Math.max(1, Math.min(concurrency, queue.length));
+
+  const runNext = async (): Promise<void> => {
+    while (queue.length > 0) {
+      const item = queue.shift()!;
+      await worker(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, runNext));
+}